@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE `RolePermission` (
+    `id` VARCHAR(191) NOT NULL,
+    `role` ENUM('admin', 'operator') NOT NULL,
+    `permission` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `RolePermission_role_permission_key`(`role`, `permission`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Seed default role permissions
+INSERT INTO `RolePermission` (`id`, `role`, `permission`) VALUES
+    (UUID(), 'admin', 'announcements:write'),
+    (UUID(), 'admin', 'programs:write'),
+    (UUID(), 'admin', 'classes:write'),
+    (UUID(), 'admin', 'mentors:write'),
+    (UUID(), 'admin', 'schedules:write'),
+    (UUID(), 'admin', 'students:read'),
+    (UUID(), 'admin', 'students:read_pii'),
+    (UUID(), 'admin', 'students:write'),
+    (UUID(), 'admin', 'enrollments:read'),
+    (UUID(), 'admin', 'enrollments:write'),
+    (UUID(), 'admin', 'donations:read'),
+    (UUID(), 'admin', 'donations:write'),
+    (UUID(), 'admin', 'users:manage'),
+    (UUID(), 'operator', 'announcements:write'),
+    (UUID(), 'operator', 'programs:write'),
+    (UUID(), 'operator', 'classes:write'),
+    (UUID(), 'operator', 'mentors:write'),
+    (UUID(), 'operator', 'schedules:write'),
+    (UUID(), 'operator', 'students:read'),
+    (UUID(), 'operator', 'students:read_pii'),
+    (UUID(), 'operator', 'students:write'),
+    (UUID(), 'operator', 'enrollments:read'),
+    (UUID(), 'operator', 'enrollments:write'),
+    (UUID(), 'operator', 'donations:read'),
+    (UUID(), 'operator', 'donations:write');
@@ -0,0 +1,22 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[mentorId]` on the table `User` will be added. If there are existing duplicate values, this will fail.
+
+*/
+-- AlterTable
+ALTER TABLE `RolePermission` MODIFY `role` ENUM('admin', 'operator', 'mentor') NOT NULL;
+
+-- AlterTable
+ALTER TABLE `User` ADD COLUMN `mentorId` CHAR(36) NULL,
+    MODIFY `role` ENUM('admin', 'operator', 'mentor') NOT NULL DEFAULT 'operator';
+
+-- CreateIndex
+CREATE UNIQUE INDEX `User_mentorId_key` ON `User`(`mentorId`);
+
+-- AddForeignKey
+ALTER TABLE `User` ADD CONSTRAINT `User_mentorId_fkey` FOREIGN KEY (`mentorId`) REFERENCES `Mentors`(`mentor_id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed mentor role permissions
+INSERT INTO `RolePermission` (`id`, `role`, `permission`) VALUES
+    (UUID(), 'mentor', 'mentor_portal:read');
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE `RolePermission` MODIFY `role` ENUM('admin', 'operator', 'mentor', 'parent') NOT NULL;
+
+-- AlterTable
+ALTER TABLE `User` MODIFY `role` ENUM('admin', 'operator', 'mentor', 'parent') NOT NULL DEFAULT 'operator';
+
+-- CreateTable
+CREATE TABLE `ParentAccount` (
+    `id` VARCHAR(191) NOT NULL,
+    `whatsapp` VARCHAR(191) NOT NULL,
+    `lastLoginAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `ParentAccount_whatsapp_key`(`whatsapp`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ParentOtp` (
+    `id` VARCHAR(191) NOT NULL,
+    `whatsapp` VARCHAR(191) NOT NULL,
+    `codeHash` VARCHAR(191) NOT NULL,
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `consumedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ParentOtp_whatsapp_createdAt_idx`(`whatsapp`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Seed parent role permissions
+INSERT INTO `RolePermission` (`id`, `role`, `permission`) VALUES
+    (UUID(), 'parent', 'parent_portal:read');
@@ -0,0 +1,69 @@
+-- CreateTable
+CREATE TABLE `Guardians` (
+    `guardian_id` CHAR(36) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `whatsapp` VARCHAR(191) NOT NULL,
+    `relationship` ENUM('father', 'mother', 'grandparent', 'sibling', 'guardian', 'other') NOT NULL DEFAULT 'guardian',
+    `email` VARCHAR(191) NULL,
+    `address` TEXT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `Guardians_whatsapp_key`(`whatsapp`),
+    PRIMARY KEY (`guardian_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `StudentGuardians` (
+    `student_id` CHAR(36) NOT NULL,
+    `guardian_id` CHAR(36) NOT NULL,
+    `is_primary` BOOLEAN NOT NULL DEFAULT false,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `StudentGuardians_guardian_id_idx`(`guardian_id`),
+    PRIMARY KEY (`student_id`, `guardian_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Normalize existing numbers so siblings registered with differently
+-- formatted numbers end up with a single guardian
+ALTER TABLE `Students` ADD COLUMN `guardian_whatsapp` VARCHAR(191) NULL;
+
+UPDATE `Students`
+SET `guardian_whatsapp` = REGEXP_REPLACE(`whatsapp`, '[^0-9]', '');
+
+UPDATE `Students`
+SET `guardian_whatsapp` = CONCAT('62', SUBSTRING(`guardian_whatsapp`, 2))
+WHERE `guardian_whatsapp` LIKE '0%';
+
+-- One guardian per number, named after the parent of the most recently registered child
+INSERT INTO `Guardians` (`guardian_id`, `name`, `whatsapp`, `relationship`, `updated_at`)
+SELECT
+    UUID(),
+    (
+        SELECT `latest`.`parent_name`
+        FROM `Students` AS `latest`
+        WHERE `latest`.`guardian_whatsapp` = `s`.`guardian_whatsapp`
+        ORDER BY `latest`.`created_at` DESC
+        LIMIT 1
+    ),
+    `s`.`guardian_whatsapp`,
+    'guardian',
+    CURRENT_TIMESTAMP(3)
+FROM `Students` AS `s`
+GROUP BY `s`.`guardian_whatsapp`;
+
+INSERT INTO `StudentGuardians` (`student_id`, `guardian_id`, `is_primary`)
+SELECT `s`.`student_id`, `g`.`guardian_id`, true
+FROM `Students` AS `s`
+INNER JOIN `Guardians` AS `g` ON `g`.`whatsapp` = `s`.`guardian_whatsapp`;
+
+-- AlterTable
+ALTER TABLE `Students` DROP COLUMN `guardian_whatsapp`,
+    DROP COLUMN `parent_name`,
+    DROP COLUMN `whatsapp`;
+
+-- AddForeignKey
+ALTER TABLE `StudentGuardians` ADD CONSTRAINT `StudentGuardians_student_id_fkey` FOREIGN KEY (`student_id`) REFERENCES `Students`(`student_id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `StudentGuardians` ADD CONSTRAINT `StudentGuardians_guardian_id_fkey` FOREIGN KEY (`guardian_id`) REFERENCES `Guardians`(`guardian_id`) ON DELETE CASCADE ON UPDATE CASCADE;
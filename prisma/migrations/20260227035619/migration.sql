@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE `Students` ADD COLUMN `date_of_birth` DATE NULL,
+    ADD COLUMN `date_of_birth_estimated` BOOLEAN NOT NULL DEFAULT false;
+
+-- Approximate the birth date from the age given at registration,
+-- assuming the student was halfway between birthdays at that time
+UPDATE `Students`
+SET `date_of_birth` = DATE_SUB(DATE(`created_at`), INTERVAL (`student_age` * 12 + 6) MONTH),
+    `date_of_birth_estimated` = true;
+
+-- AlterTable
+ALTER TABLE `Students` MODIFY `date_of_birth` DATE NOT NULL,
+    DROP COLUMN `student_age`;
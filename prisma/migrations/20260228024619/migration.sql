@@ -0,0 +1,3 @@
+-- Seed student merge permission
+INSERT INTO `RolePermission` (`id`, `role`, `permission`) VALUES
+    (UUID(), 'admin', 'students:merge');
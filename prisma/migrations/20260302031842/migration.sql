@@ -0,0 +1,3 @@
+-- Seed export permission
+INSERT INTO `RolePermission` (`id`, `role`, `permission`) VALUES
+    (UUID(), 'admin', 'data:export');
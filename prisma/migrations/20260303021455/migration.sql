@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE `QuarantinedSubmission` (
+    `id` VARCHAR(191) NOT NULL,
+    `kind` ENUM('student', 'enrollment') NOT NULL,
+    `payload` JSON NOT NULL,
+    `reasons` JSON NOT NULL,
+    `status` ENUM('pending', 'approved', 'rejected') NOT NULL DEFAULT 'pending',
+    `ipAddress` VARCHAR(191) NULL,
+    `userAgent` TEXT NULL,
+    `entityId` VARCHAR(191) NULL,
+    `reviewedById` VARCHAR(191) NULL,
+    `reviewedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `QuarantinedSubmission_status_createdAt_idx`(`status`, `createdAt`),
+    INDEX `QuarantinedSubmission_reviewedById_idx`(`reviewedById`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `QuarantinedSubmission` ADD CONSTRAINT `QuarantinedSubmission_reviewedById_fkey` FOREIGN KEY (`reviewedById`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed submission review permissions
+INSERT INTO `RolePermission` (`id`, `role`, `permission`) VALUES
+    (UUID(), 'admin', 'submissions:review'),
+    (UUID(), 'operator', 'submissions:review');
@@ -0,0 +1,95 @@
+-- Convert stored WhatsApp numbers to E.164 (see src/helper/phone.ts).
+-- Numbers were stored as digits with a local leading 0 replaced by 62.
+
+-- Guardians: compute the canonical number first, since numbers such as
+-- 812... and 62812... now belong to the same guardian
+ALTER TABLE `Guardians` ADD COLUMN `whatsapp_e164` VARCHAR(191) NULL;
+
+UPDATE `Guardians`
+SET `whatsapp_e164` = REGEXP_REPLACE(`whatsapp`, '[^0-9]', '');
+
+UPDATE `Guardians`
+SET `whatsapp_e164` = SUBSTRING(`whatsapp_e164`, 3)
+WHERE `whatsapp_e164` LIKE '00%';
+
+UPDATE `Guardians`
+SET `whatsapp_e164` = CONCAT('62', SUBSTRING(`whatsapp_e164`, 2))
+WHERE `whatsapp_e164` LIKE '0%';
+
+UPDATE `Guardians`
+SET `whatsapp_e164` = CONCAT('62', `whatsapp_e164`)
+WHERE `whatsapp_e164` LIKE '8%';
+
+UPDATE `Guardians`
+SET `whatsapp_e164` = CONCAT('62', SUBSTRING(`whatsapp_e164`, 4))
+WHERE `whatsapp_e164` LIKE '620%';
+
+UPDATE `Guardians`
+SET `whatsapp_e164` = CONCAT('+', `whatsapp_e164`);
+
+-- Merge guardians that share a number into the oldest one
+CREATE TEMPORARY TABLE `GuardianMerge` AS
+SELECT
+    `g`.`guardian_id`,
+    (
+        SELECT `keep`.`guardian_id`
+        FROM `Guardians` AS `keep`
+        WHERE `keep`.`whatsapp_e164` = `g`.`whatsapp_e164`
+        ORDER BY `keep`.`created_at` ASC, `keep`.`guardian_id` ASC
+        LIMIT 1
+    ) AS `keep_id`
+FROM `Guardians` AS `g`;
+
+DELETE FROM `GuardianMerge` WHERE `guardian_id` = `keep_id`;
+
+INSERT IGNORE INTO `StudentGuardians` (`student_id`, `guardian_id`, `is_primary`, `created_at`)
+SELECT `sg`.`student_id`, `m`.`keep_id`, `sg`.`is_primary`, `sg`.`created_at`
+FROM `StudentGuardians` AS `sg`
+INNER JOIN `GuardianMerge` AS `m` ON `m`.`guardian_id` = `sg`.`guardian_id`;
+
+DELETE `g`
+FROM `Guardians` AS `g`
+INNER JOIN `GuardianMerge` AS `m` ON `m`.`guardian_id` = `g`.`guardian_id`;
+
+DROP TEMPORARY TABLE `GuardianMerge`;
+
+UPDATE `Guardians` SET `whatsapp` = `whatsapp_e164`;
+
+ALTER TABLE `Guardians` DROP COLUMN `whatsapp_e164`;
+
+-- Parent accounts: a parent that ends up with two accounts keeps the
+-- most recently used one and logs in again on the other device
+UPDATE `ParentAccount`
+SET `whatsapp` = SUBSTRING(`whatsapp`, 3)
+WHERE `whatsapp` LIKE '00%';
+
+UPDATE `ParentAccount`
+SET `whatsapp` = CONCAT('62', SUBSTRING(`whatsapp`, 2))
+WHERE `whatsapp` LIKE '0%';
+
+DELETE `short`
+FROM `ParentAccount` AS `short`
+INNER JOIN `ParentAccount` AS `full`
+    ON `full`.`whatsapp` IN (CONCAT('62', `short`.`whatsapp`), CONCAT('62', SUBSTRING(`short`.`whatsapp`, 4)))
+WHERE (`short`.`whatsapp` LIKE '8%' OR `short`.`whatsapp` LIKE '620%')
+    AND COALESCE(`full`.`lastLoginAt`, `full`.`createdAt`) >= COALESCE(`short`.`lastLoginAt`, `short`.`createdAt`);
+
+DELETE `full`
+FROM `ParentAccount` AS `full`
+INNER JOIN `ParentAccount` AS `short`
+    ON `full`.`whatsapp` IN (CONCAT('62', `short`.`whatsapp`), CONCAT('62', SUBSTRING(`short`.`whatsapp`, 4)))
+WHERE `short`.`whatsapp` LIKE '8%' OR `short`.`whatsapp` LIKE '620%';
+
+UPDATE `ParentAccount`
+SET `whatsapp` = CONCAT('62', `whatsapp`)
+WHERE `whatsapp` LIKE '8%';
+
+UPDATE `ParentAccount`
+SET `whatsapp` = CONCAT('62', SUBSTRING(`whatsapp`, 4))
+WHERE `whatsapp` LIKE '620%';
+
+UPDATE `ParentAccount`
+SET `whatsapp` = CONCAT('+', `whatsapp`);
+
+-- Login codes are short-lived and tied to the old format, so drop them
+DELETE FROM `ParentOtp`;
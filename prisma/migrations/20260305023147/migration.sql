@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE `Announcements` ADD COLUMN `deleted_at` DATETIME(3) NULL;
+
+ALTER TABLE `Donation` ADD COLUMN `deleted_at` DATETIME(3) NULL;
+
+ALTER TABLE `DonationAllocation` ADD COLUMN `deleted_at` DATETIME(3) NULL;
+
+ALTER TABLE `Students` ADD COLUMN `deleted_at` DATETIME(3) NULL;
+
+ALTER TABLE `Guardians` ADD COLUMN `deleted_at` DATETIME(3) NULL;
+
+ALTER TABLE `Programs` ADD COLUMN `deleted_at` DATETIME(3) NULL;
+
+ALTER TABLE `Mentors` ADD COLUMN `deleted_at` DATETIME(3) NULL;
+
+ALTER TABLE `Classes` ADD COLUMN `deleted_at` DATETIME(3) NULL;
+
+ALTER TABLE `Enrollments` ADD COLUMN `deleted_at` DATETIME(3) NULL;
+
+ALTER TABLE `Schedules` ADD COLUMN `deleted_at` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `Announcements_deleted_at_idx` ON `Announcements`(`deleted_at`);
+
+CREATE INDEX `Donation_deleted_at_idx` ON `Donation`(`deleted_at`);
+
+CREATE INDEX `DonationAllocation_deleted_at_idx` ON `DonationAllocation`(`deleted_at`);
+
+CREATE INDEX `Students_deleted_at_idx` ON `Students`(`deleted_at`);
+
+CREATE INDEX `Guardians_deleted_at_idx` ON `Guardians`(`deleted_at`);
+
+CREATE INDEX `Programs_deleted_at_idx` ON `Programs`(`deleted_at`);
+
+CREATE INDEX `Mentors_deleted_at_idx` ON `Mentors`(`deleted_at`);
+
+CREATE INDEX `Classes_deleted_at_idx` ON `Classes`(`deleted_at`);
+
+CREATE INDEX `Enrollments_deleted_at_idx` ON `Enrollments`(`deleted_at`);
+
+CREATE INDEX `Schedules_deleted_at_idx` ON `Schedules`(`deleted_at`);
+
+-- Seed trash purge permission
+INSERT INTO `RolePermission` (`id`, `role`, `permission`) VALUES
+    (UUID(), 'admin', 'trash:purge');
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE `Enrollments` ADD COLUMN `activated_at` DATETIME(3) NULL,
+    ADD COLUMN `completed_at` DATETIME(3) NULL,
+    ADD COLUMN `dropped_at` DATETIME(3) NULL,
+    ADD COLUMN `rejected_at` DATETIME(3) NULL;
+
+-- CreateTable
+CREATE TABLE `EnrollmentStatusHistory` (
+    `id` CHAR(36) NOT NULL,
+    `enrollment_id` CHAR(36) NOT NULL,
+    `from_status` ENUM('registered', 'confirmed', 'active', 'dropped', 'rejected', 'completed') NULL,
+    `to_status` ENUM('registered', 'confirmed', 'active', 'dropped', 'rejected', 'completed') NOT NULL,
+    `reason` TEXT NULL,
+    `changed_by_id` VARCHAR(191) NULL,
+    `api_key_id` VARCHAR(191) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `EnrollmentStatusHistory_enrollment_id_created_at_idx`(`enrollment_id`, `created_at`),
+    INDEX `EnrollmentStatusHistory_changed_by_id_idx`(`changed_by_id`),
+    INDEX `EnrollmentStatusHistory_api_key_id_idx`(`api_key_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `EnrollmentStatusHistory` ADD CONSTRAINT `EnrollmentStatusHistory_enrollment_id_fkey` FOREIGN KEY (`enrollment_id`) REFERENCES `Enrollments`(`enrollment_id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `EnrollmentStatusHistory` ADD CONSTRAINT `EnrollmentStatusHistory_changed_by_id_fkey` FOREIGN KEY (`changed_by_id`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `EnrollmentStatusHistory` ADD CONSTRAINT `EnrollmentStatusHistory_api_key_id_fkey` FOREIGN KEY (`api_key_id`) REFERENCES `ApiKey`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Start the history of existing enrollments with their current status
+INSERT INTO `EnrollmentStatusHistory` (`id`, `enrollment_id`, `from_status`, `to_status`, `reason`, `created_at`)
+SELECT UUID(), `enrollment_id`, NULL, `status`, 'Status before history was recorded', `updated_at`
+FROM `Enrollments`;
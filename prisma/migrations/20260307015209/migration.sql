@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE `Classes` ADD COLUMN `capacity` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `Enrollments` MODIFY `status` ENUM('registered', 'waitlisted', 'confirmed', 'active', 'dropped', 'rejected', 'completed') NOT NULL,
+    ADD COLUMN `waitlist_position` INTEGER NULL,
+    ADD COLUMN `waitlisted_at` DATETIME(3) NULL;
+
+-- AlterTable
+ALTER TABLE `EnrollmentStatusHistory` MODIFY `from_status` ENUM('registered', 'waitlisted', 'confirmed', 'active', 'dropped', 'rejected', 'completed') NULL,
+    MODIFY `to_status` ENUM('registered', 'waitlisted', 'confirmed', 'active', 'dropped', 'rejected', 'completed') NOT NULL;
+
+-- CreateIndex
+CREATE INDEX `Enrollments_class_id_status_idx` ON `Enrollments`(`class_id`, `status`);
+
+-- DropIndex
+DROP INDEX `Enrollments_class_id_idx` ON `Enrollments`;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE `QuarantinedSubmission` MODIFY `kind` ENUM('student', 'enrollment', 'registration') NOT NULL;
+
+-- CreateTable
+CREATE TABLE `Registrations` (
+    `registration_id` CHAR(36) NOT NULL,
+    `reference_number` VARCHAR(16) NOT NULL,
+    `enrollment_id` CHAR(36) NOT NULL,
+    `idempotency_key` VARCHAR(255) NULL,
+    `request_hash` CHAR(64) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `Registrations_reference_number_key`(`reference_number`),
+    UNIQUE INDEX `Registrations_enrollment_id_key`(`enrollment_id`),
+    UNIQUE INDEX `Registrations_idempotency_key_key`(`idempotency_key`),
+    PRIMARY KEY (`registration_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `Registrations` ADD CONSTRAINT `Registrations_enrollment_id_fkey` FOREIGN KEY (`enrollment_id`) REFERENCES `Enrollments`(`enrollment_id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX `Registrations_enrollment_id_idx` ON `Registrations`(`enrollment_id`);
+
+-- DropIndex
+DROP INDEX `Registrations_enrollment_id_key` ON `Registrations`;
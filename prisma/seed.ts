@@ -100,6 +100,22 @@ async function main() {
     }),
   ])
 
+  // ======================
+  // MENTOR USERS
+  // ======================
+  await prisma.user.createMany({
+    data: [
+      {
+        email: "ahmad@kitapandu.com",
+        name: "Ustadz Ahmad",
+        password: passwordHash,
+        role: "mentor",
+        mentorId: mentorAhmad.mentor_id,
+      },
+    ],
+    skipDuplicates: true,
+  })
+
   // ======================
   // CLASSES
   // ======================
@@ -174,17 +190,37 @@ async function main() {
     prisma.students.create({
       data: {
         student_name: "Ali",
-        student_age: 8,
-        parent_name: "Bapak Ali",
-        whatsapp: "08129876543",
+        date_of_birth: new Date("2017-05-14"),
+        guardians: {
+          create: {
+            is_primary: true,
+            guardian: {
+              create: {
+                name: "Bapak Ali",
+                whatsapp: "+628129876543",
+                relationship: "father",
+              },
+            },
+          },
+        },
       },
     }),
     prisma.students.create({
       data: {
         student_name: "Fatimah",
-        student_age: 6,
-        parent_name: "Ibu Fatimah",
-        whatsapp: "08127778899",
+        date_of_birth: new Date("2019-09-02"),
+        guardians: {
+          create: {
+            is_primary: true,
+            guardian: {
+              create: {
+                name: "Ibu Fatimah",
+                whatsapp: "+628127778899",
+                relationship: "mother",
+              },
+            },
+          },
+        },
       },
     }),
   ])
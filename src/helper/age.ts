@@ -0,0 +1,39 @@
+/**
+ * Age in whole years on a given date
+ */
+export const calculateAge = (dateOfBirth: Date, asOf: Date = new Date()): number => {
+  const age = asOf.getUTCFullYear() - dateOfBirth.getUTCFullYear();
+  const birthdayPassed =
+    asOf.getUTCMonth() > dateOfBirth.getUTCMonth() ||
+    (asOf.getUTCMonth() === dateOfBirth.getUTCMonth() &&
+      asOf.getUTCDate() >= dateOfBirth.getUTCDate());
+  return birthdayPassed ? age : age - 1;
+};
+
+const yearsBefore = (date: Date, years: number): Date =>
+  new Date(Date.UTC(
+    date.getUTCFullYear() - years,
+    date.getUTCMonth(),
+    date.getUTCDate()
+  ));
+
+/**
+ * Birth date range of people aged between `minAge` and `maxAge`
+ * (inclusive) on a given date, for filtering on date_of_birth
+ */
+export const birthDateRangeForAge = (
+  minAge?: number,
+  maxAge?: number,
+  asOf: Date = new Date()
+): { gt?: Date; lte?: Date } => ({
+  lte: minAge !== undefined ? yearsBefore(asOf, minAge) : undefined,
+  gt: maxAge !== undefined ? yearsBefore(asOf, maxAge + 1) : undefined,
+});
+
+/**
+ * Add the current `age` to a record with a date of birth
+ */
+export const withAge = <T extends { date_of_birth: Date }>(record: T) => ({
+  ...record,
+  age: calculateAge(record.date_of_birth),
+});
@@ -6,4 +6,50 @@ if (!process.env.JWT_SECRET) {
 
 export const JWT_SECRET: string = process.env.JWT_SECRET;
 
-export const JWT_EXPIRY: string = process.env.JWT_EXPIRES_IN ?? "7d";
+export const JWT_EXPIRY: string = process.env.JWT_EXPIRES_IN ?? "15m";
+
+export const REFRESH_TOKEN_EXPIRY_DAYS: number = Number(process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS ?? 30);
+
+export const APP_URL: string = process.env.APP_URL ?? "http://localhost:3000";
+
+export const INVITE_TOKEN_EXPIRY_HOURS: number = Number(process.env.INVITE_TOKEN_EXPIRES_IN_HOURS ?? 72);
+
+export const PASSWORD_RESET_TOKEN_EXPIRY_MINUTES: number = Number(process.env.PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES ?? 60);
+
+export const OUTBOX_TRANSPORT: string = process.env.OUTBOX_TRANSPORT ?? "console";
+
+export const OUTBOX_FILE: string = process.env.OUTBOX_FILE ?? "outbox.log";
+
+export const LOGIN_LOCKOUT_THRESHOLD: number = Number(process.env.LOGIN_LOCKOUT_THRESHOLD ?? 5);
+
+export const LOGIN_LOCKOUT_MINUTES: number = Number(process.env.LOGIN_LOCKOUT_MINUTES ?? 15);
+
+export const LOGIN_IP_MAX_FAILURES: number = Number(process.env.LOGIN_IP_MAX_FAILURES ?? 20);
+
+export const LOGIN_IP_WINDOW_MINUTES: number = Number(process.env.LOGIN_IP_WINDOW_MINUTES ?? 15);
+
+export const PARENT_TOKEN_EXPIRY: string = process.env.PARENT_TOKEN_EXPIRES_IN ?? "7d";
+
+export const PARENT_OTP_EXPIRY_MINUTES: number = Number(process.env.PARENT_OTP_EXPIRES_IN_MINUTES ?? 5);
+
+export const PARENT_OTP_IP_MAX_REQUESTS: number = Number(process.env.PARENT_OTP_IP_MAX_REQUESTS ?? 10);
+
+export const PARENT_OTP_IP_WINDOW_MINUTES: number = Number(process.env.PARENT_OTP_IP_WINDOW_MINUTES ?? 15);
+
+export const PARENT_OTP_IP_MAX_VERIFICATIONS: number = Number(process.env.PARENT_OTP_IP_MAX_VERIFICATIONS ?? 20);
+
+export const TWO_FACTOR_ISSUER: string = process.env.TWO_FACTOR_ISSUER ?? "Kitapandu";
+
+export const TWO_FACTOR_CHALLENGE_EXPIRY: string = process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN ?? "5m";
+
+export const REQUIRE_ADMIN_2FA: boolean = process.env.REQUIRE_ADMIN_2FA === "true";
+
+export const PUBLIC_RATE_LIMIT_MAX: number = Number(process.env.PUBLIC_RATE_LIMIT_MAX ?? 10);
+
+export const PUBLIC_RATE_LIMIT_WINDOW_MINUTES: number = Number(process.env.PUBLIC_RATE_LIMIT_WINDOW_MINUTES ?? 10);
+
+export const CHALLENGE_PROVIDER: string = process.env.CHALLENGE_PROVIDER ?? "none";
+
+export const CHALLENGE_SECRET: string | undefined = process.env.CHALLENGE_SECRET;
+
+export const CHALLENGE_TEST_TOKEN: string = process.env.CHALLENGE_TEST_TOKEN ?? "test-pass";
@@ -0,0 +1,101 @@
+/**
+ * WhatsApp numbers are stored in E.164 format (+628123456789).
+ * Indonesian numbers are accepted in any common format: 0812-3456-7890,
+ * 62812..., +62 812... or 812... (a leading zero lost in a spreadsheet),
+ * and must be mobile numbers since WhatsApp needs one.
+ * Numbers of other countries need an explicit + or 00 prefix.
+ */
+
+const INDONESIA_CODE = '62';
+
+export type PhoneError =
+  | 'empty'
+  | 'invalid_characters'
+  | 'invalid_format'
+  | 'not_mobile'
+  | 'invalid_length';
+
+export type PhoneParseResult =
+  | { valid: true; e164: string }
+  | { valid: false; error: PhoneError };
+
+export const PHONE_ERROR_MESSAGES: Record<PhoneError, string> = {
+  empty: 'WhatsApp number is required',
+  invalid_characters: 'WhatsApp number may only contain digits, spaces, dashes, dots, parentheses and a leading +',
+  invalid_format: 'WhatsApp number must start with 0, 62 or + and a country code',
+  not_mobile: 'Indonesian WhatsApp numbers must be mobile numbers starting with 08 or +628',
+  invalid_length: 'WhatsApp number has too few or too many digits',
+};
+
+const parseIndonesian = (national: string): PhoneParseResult => {
+  // Mobile numbers are 8 followed by 8 to 11 digits
+  if (!national.startsWith('8')) {
+    return { valid: false, error: 'not_mobile' };
+  }
+  if (national.length < 9 || national.length > 12) {
+    return { valid: false, error: 'invalid_length' };
+  }
+  return { valid: true, e164: `+${INDONESIA_CODE}${national}` };
+};
+
+/**
+ * Parse a WhatsApp number written in any common format
+ */
+export const parseWhatsapp = (value: string): PhoneParseResult => {
+  const compact = value.trim().replace(/[\s\-.()]/g, '');
+
+  if (!compact) {
+    return { valid: false, error: 'empty' };
+  }
+  if (!/^\+?\d+$/.test(compact)) {
+    return { valid: false, error: 'invalid_characters' };
+  }
+
+  let international: string;
+  if (compact.startsWith('+')) {
+    international = compact.slice(1);
+  } else if (compact.startsWith('00')) {
+    international = compact.slice(2);
+  } else if (compact.startsWith('0')) {
+    return parseIndonesian(compact.slice(1));
+  } else if (compact.startsWith(INDONESIA_CODE)) {
+    international = compact;
+  } else if (compact.startsWith('8')) {
+    return parseIndonesian(compact);
+  } else {
+    return { valid: false, error: 'invalid_format' };
+  }
+
+  if (international.startsWith(INDONESIA_CODE)) {
+    // Also accept the local trunk zero after the country code (+62 0812...)
+    return parseIndonesian(international.slice(INDONESIA_CODE.length).replace(/^0/, ''));
+  }
+
+  if (!/^[1-9]/.test(international)) {
+    return { valid: false, error: 'invalid_format' };
+  }
+  // E.164 allows up to 15 digits including the country code
+  if (international.length < 8 || international.length > 15) {
+    return { valid: false, error: 'invalid_length' };
+  }
+  return { valid: true, e164: `+${international}` };
+};
+
+/**
+ * Convert a WhatsApp number to E.164, or null if it is not valid
+ */
+export const toE164 = (value: string): string | null => {
+  const result = parseWhatsapp(value);
+  return result.valid ? result.e164 : null;
+};
+
+/**
+ * Digits to search stored numbers with, for partial input such as
+ * "0812 345". A local leading 0 becomes the Indonesian country code.
+ */
+export const phoneSearchDigits = (value: string): string => {
+  const digits = value.replace(/\D/g, '');
+  return digits.startsWith('0') && !digits.startsWith('00')
+    ? `${INDONESIA_CODE}${digits.slice(1)}`
+    : digits.replace(/^00/, '');
+};
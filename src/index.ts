@@ -12,6 +12,16 @@ import enrollmentsRouter from "./routes/enrollments"
 import mentorsRouter from "./routes/mentors"
 import scheduleRouter from "./routes/schedules" 
 import usersRouter from "./routes/users"
+import rolesRouter from "./routes/roles"
+import mentorPortalRouter from "./routes/mentorPortal"
+import parentPortalRouter from "./routes/parentPortal"
+import auditRouter from "./routes/audit"
+import apiKeysRouter from "./routes/apiKeys"
+import guardiansRouter from "./routes/guardians"
+import importsRouter from "./routes/imports"
+import submissionsRouter from "./routes/submissions"
+import trashRouter from "./routes/trash"
+import registrationsRouter from "./routes/registrations"
 import { initializeBlacklist } from "./lib/tokenBlacklist"
 
 dotenv.config()
@@ -38,10 +48,20 @@ app.use("/api/classes", classesRouter)
 app.use("/api/donations", donationsRouter)
 app.use("/api/programs", programsRouter)
 app.use("/api/students", studentsRouter)
+app.use("/api/guardians", guardiansRouter)
 app.use("/api/enrollments", enrollmentsRouter)
 app.use("/api/mentors", mentorsRouter)
 app.use("/api/schedules", scheduleRouter)
 app.use("/api/users", usersRouter)
+app.use("/api/roles", rolesRouter)
+app.use("/api/mentor", mentorPortalRouter)
+app.use("/api/parent", parentPortalRouter)
+app.use("/api/audit", auditRouter)
+app.use("/api/api-keys", apiKeysRouter)
+app.use("/api/imports", importsRouter)
+app.use("/api/submissions", submissionsRouter)
+app.use("/api/trash", trashRouter)
+app.use("/api/registrations", registrationsRouter)
 
 // Start server
 app.listen(PORT, () => {
@@ -0,0 +1,114 @@
+/**
+ * API Key Service
+ * Long-lived credentials for machine clients such as the public website.
+ * Keys look like `kp_<prefix>_<secret>`; only the SHA-256 hash of the whole
+ * key is stored and the prefix identifies the key in listings.
+ * Each key carries its own scopes and can expire or be revoked independently.
+ */
+
+import crypto from 'crypto';
+import { ApiKey } from '@prisma/client';
+import { prisma } from './prisma';
+import { API_KEY_SCOPES, Permission } from './permissions';
+
+const KEY_PREFIX = 'kp';
+
+// Only write last-used tracking once per minute per key
+const LAST_USED_INTERVAL = 60 * 1000;
+
+const hashKey = (key: string): string =>
+  crypto.createHash('sha256').update(key).digest('hex');
+
+/**
+ * Public fields of an API key, safe to return from the API
+ */
+export const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdById: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Get the scopes of an API key that are still grantable to keys
+ */
+export const getApiKeyScopes = (apiKey: Pick<ApiKey, 'scopes'>): Permission[] =>
+  Array.isArray(apiKey.scopes)
+    ? API_KEY_SCOPES.filter((scope) => (apiKey.scopes as unknown[]).includes(scope))
+    : [];
+
+/**
+ * Create an API key. The plaintext key is only returned here.
+ */
+export const createApiKey = async (input: {
+  name: string;
+  scopes: Permission[];
+  expiresAt?: Date;
+  createdById?: string;
+}) => {
+  const prefix = crypto.randomBytes(4).toString('hex');
+  const key = `${KEY_PREFIX}_${prefix}_${crypto.randomBytes(24).toString('base64url')}`;
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      name: input.name,
+      prefix: `${KEY_PREFIX}_${prefix}`,
+      keyHash: hashKey(key),
+      scopes: Array.from(new Set(input.scopes)),
+      expiresAt: input.expiresAt,
+      createdById: input.createdById,
+    },
+    select: apiKeySelect,
+  });
+
+  return { apiKey, key };
+};
+
+/**
+ * Resolve an API key presented by a client and record its use.
+ * Returns null if the key is unknown, expired or revoked.
+ */
+export const verifyApiKey = async (
+  key: string,
+  ipAddress?: string | null
+): Promise<ApiKey | null> => {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashKey(key) },
+  });
+
+  const now = new Date();
+
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_INTERVAL) {
+    try {
+      await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: now, lastUsedIp: ipAddress ?? null },
+      });
+    } catch (error) {
+      console.error('[ApiKey] Error recording key usage:', error);
+    }
+  }
+
+  return apiKey;
+};
+
+/**
+ * Revoke an API key. Returns false if it does not exist or is already revoked.
+ */
+export const revokeApiKey = async (id: string): Promise<boolean> => {
+  const result = await prisma.apiKey.updateMany({
+    where: { id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return result.count > 0;
+};
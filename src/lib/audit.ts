@@ -0,0 +1,108 @@
+/**
+ * Audit Log Service
+ * Records who changed what through the API. Creates store the new record,
+ * deletes store the removed one and updates store only the changed fields.
+ * Secrets such as password hashes are redacted before they are stored.
+ */
+
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { getSessionContext } from './sessions';
+
+export interface AuditEntry {
+  action: string;
+  entityType: string;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+  // Defaults to the authenticated user of the request
+  actor?: { id: string; email?: string };
+}
+
+type JsonRecord = Record<string, unknown>;
+
+const REDACTED_FIELDS = ['password', 'twoFactorSecret', 'tokenHash', 'codeHash', 'keyHash'];
+
+// Timestamps that change on every write and would only add noise to a diff
+const IGNORED_DIFF_FIELDS = ['updatedAt', 'updated_at'];
+
+const redact = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        REDACTED_FIELDS.includes(key) && field !== null ? '[REDACTED]' : redact(field),
+      ])
+    );
+  }
+  return value;
+};
+
+/**
+ * Convert a record to plain JSON (dates, decimals) with secrets redacted
+ */
+const toSnapshot = (value: unknown): JsonRecord | undefined => {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  return redact(JSON.parse(JSON.stringify(value))) as JsonRecord;
+};
+
+/**
+ * Keep only the fields that differ between two snapshots
+ */
+const diffSnapshots = (before: JsonRecord, after: JsonRecord) => {
+  const changedBefore: JsonRecord = {};
+  const changedAfter: JsonRecord = {};
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (IGNORED_DIFF_FIELDS.includes(key)) {
+      continue;
+    }
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+};
+
+/**
+ * Record a write operation performed by the request's user or API key.
+ * Failures are logged and never interrupt the request.
+ */
+export const recordAudit = async (req: Request, entry: AuditEntry): Promise<void> => {
+  try {
+    let before = toSnapshot(entry.before);
+    let after = toSnapshot(entry.after);
+
+    if (before && after) {
+      ({ before, after } = diffSnapshots(before, after));
+    }
+
+    const { ipAddress, userAgent } = getSessionContext(req);
+    const actor = entry.actor ?? req.user;
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: actor?.id ?? null,
+        actorEmail: actor?.email ?? null,
+        apiKeyId: entry.actor ? null : req.apiKey?.id ?? null,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        before: before as Prisma.InputJsonObject | undefined,
+        after: after as Prisma.InputJsonObject | undefined,
+        ipAddress,
+        userAgent,
+      },
+    });
+  } catch (error) {
+    console.error('[Audit] Error recording audit log:', error);
+  }
+};
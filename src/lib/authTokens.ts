@@ -0,0 +1,70 @@
+/**
+ * Auth Token Service
+ * Single-use, expiring tokens for staff invitations and password resets.
+ * Only the SHA-256 hash of a token is stored.
+ */
+
+import crypto from 'crypto';
+import { AuthTokenType } from '@prisma/client';
+import { prisma } from './prisma';
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Create a token for a user, invalidating any unused token of the same type
+ */
+export const createAuthToken = async (
+  userId: string,
+  type: AuthTokenType,
+  ttlMs: number
+): Promise<{ token: string; expiresAt: Date }> => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + ttlMs);
+
+  await prisma.$transaction([
+    prisma.authToken.updateMany({
+      where: { userId, type, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+    prisma.authToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt,
+      },
+    }),
+  ]);
+
+  return { token, expiresAt };
+};
+
+/**
+ * Consume a token, returning the owning user ID.
+ * Returns null if the token is unknown, expired or already used.
+ */
+export const consumeAuthToken = async (
+  token: string,
+  type: AuthTokenType
+): Promise<string | null> => {
+  const existing = await prisma.authToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!existing || existing.type !== type) {
+    return null;
+  }
+
+  // Conditional update so a token can only be consumed once
+  const result = await prisma.authToken.updateMany({
+    where: {
+      id: existing.id,
+      usedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    data: { usedAt: new Date() },
+  });
+
+  return result.count === 1 ? existing.userId : null;
+};
@@ -0,0 +1,118 @@
+/**
+ * Challenge Service
+ * Verifies the captcha token sent with public submissions through a
+ * pluggable verifier. Turnstile, hCaptcha and reCAPTCHA share the same
+ * siteverify protocol; the test verifier is a local stand-in that accepts
+ * one fixed token. Other providers can be plugged in with
+ * setChallengeVerifier().
+ */
+
+import {
+  CHALLENGE_PROVIDER,
+  CHALLENGE_SECRET,
+  CHALLENGE_TEST_TOKEN,
+} from '../helper/env';
+
+export interface ChallengeVerifier {
+  name: string;
+  verify: (token: string, ipAddress?: string | null) => Promise<boolean>;
+}
+
+const SITEVERIFY_URLS: Record<string, string> = {
+  turnstile: 'https://challenges.cloudflare.com/turnstile/v0/siteverify',
+  hcaptcha: 'https://api.hcaptcha.com/siteverify',
+  recaptcha: 'https://www.google.com/recaptcha/api/siteverify',
+};
+
+/**
+ * Accept exactly one token, for local development and tests
+ */
+export const createTestVerifier = (expectedToken: string): ChallengeVerifier => ({
+  name: 'test',
+  verify: async (token) => token === expectedToken,
+});
+
+/**
+ * Verify tokens with a provider's siteverify endpoint
+ */
+export const createSiteverifyVerifier = (
+  name: string,
+  url: string,
+  secret: string
+): ChallengeVerifier => ({
+  name,
+  verify: async (token, ipAddress) => {
+    const body = new URLSearchParams({ secret, response: token });
+    if (ipAddress) {
+      body.set('remoteip', ipAddress);
+    }
+
+    const response = await fetch(url, { method: 'POST', body });
+    if (!response.ok) {
+      throw new Error(`Siteverify request failed with status ${response.status}`);
+    }
+
+    const result = (await response.json()) as { success?: boolean };
+    return result.success === true;
+  },
+});
+
+const resolveVerifier = (): ChallengeVerifier | null => {
+  switch (CHALLENGE_PROVIDER) {
+    case 'none':
+      return null;
+    case 'test':
+      return createTestVerifier(CHALLENGE_TEST_TOKEN);
+    case 'turnstile':
+    case 'hcaptcha':
+    case 'recaptcha':
+      if (!CHALLENGE_SECRET) {
+        throw new Error(`CHALLENGE_SECRET is required for CHALLENGE_PROVIDER=${CHALLENGE_PROVIDER}`);
+      }
+      return createSiteverifyVerifier(
+        CHALLENGE_PROVIDER,
+        SITEVERIFY_URLS[CHALLENGE_PROVIDER],
+        CHALLENGE_SECRET
+      );
+    default:
+      throw new Error(`Unknown CHALLENGE_PROVIDER: ${CHALLENGE_PROVIDER}`);
+  }
+};
+
+let activeVerifier: ChallengeVerifier | null = resolveVerifier();
+
+/**
+ * Replace the verifier used for challenge tokens, or pass null to
+ * turn challenges off
+ */
+export const setChallengeVerifier = (verifier: ChallengeVerifier | null): void => {
+  activeVerifier = verifier;
+};
+
+/**
+ * Check whether challenges are turned on
+ */
+export const isChallengeEnabled = (): boolean => activeVerifier !== null;
+
+/**
+ * Verify a challenge token. Always passes when challenges are off.
+ * A provider error counts as a failed challenge.
+ */
+export const verifyChallenge = async (
+  token: string | undefined,
+  ipAddress?: string | null
+): Promise<boolean> => {
+  if (!activeVerifier) {
+    return true;
+  }
+  if (!token) {
+    return false;
+  }
+
+  try {
+    return await activeVerifier.verify(token, ipAddress);
+  } catch (error) {
+    console.error(`[Challenge] Verification via ${activeVerifier.name} failed:`, error);
+    return false;
+  }
+};
@@ -0,0 +1,78 @@
+/**
+ * Age Eligibility Service
+ * A student may join a class when their age on the day they would start
+ * is within the class's min_age and max_age. That day is the class start
+ * date, or the enrollment date for a class that is already running.
+ * A max_age of 0 (the column default) means there is no upper limit.
+ */
+
+import { calculateAge } from '../helper/age';
+
+interface AgeLimits {
+  min_age: number;
+  max_age: number;
+  started_at: Date;
+}
+
+export type EligibilityResult =
+  | { eligible: true; age: number; as_of: Date }
+  | {
+    eligible: false;
+    reason: 'too_young' | 'too_old';
+    age: number;
+    as_of: Date;
+    min_age: number;
+    max_age: number | null;
+  };
+
+/**
+ * Day on which the age of a student joining a class is checked
+ */
+export const eligibilityDate = (cls: { started_at: Date }, enrolledAt: Date = new Date()): Date =>
+  cls.started_at > enrolledAt ? cls.started_at : enrolledAt;
+
+/**
+ * Upper age limit of a class, or undefined if it has none
+ */
+export const maxAgeOf = (cls: { max_age: number }): number | undefined =>
+  cls.max_age > 0 ? cls.max_age : undefined;
+
+/**
+ * Check whether a student is old enough and young enough for a class
+ */
+export const checkAgeEligibility = (
+  student: { date_of_birth: Date },
+  cls: AgeLimits,
+  enrolledAt: Date = new Date()
+): EligibilityResult => {
+  const asOf = eligibilityDate(cls, enrolledAt);
+  const age = calculateAge(student.date_of_birth, asOf);
+  const maxAge = maxAgeOf(cls);
+
+  if (age >= cls.min_age && (maxAge === undefined || age <= maxAge)) {
+    return { eligible: true, age, as_of: asOf };
+  }
+
+  return {
+    eligible: false,
+    reason: age < cls.min_age ? 'too_young' : 'too_old',
+    age,
+    as_of: asOf,
+    min_age: cls.min_age,
+    max_age: maxAge ?? null,
+  };
+};
+
+/**
+ * Explain why a student is not eligible, e.g. "Student is 6 on
+ * 2026-07-01, but the class is for ages 7 to 10"
+ */
+export const eligibilityMessage = (
+  result: Extract<EligibilityResult, { eligible: false }>
+): string => {
+  const range = result.max_age === null
+    ? `ages ${result.min_age} and up`
+    : `ages ${result.min_age} to ${result.max_age}`;
+
+  return `Student is ${result.age} on ${result.as_of.toISOString().slice(0, 10)}, but the class is for ${range}`;
+};
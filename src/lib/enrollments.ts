@@ -0,0 +1,737 @@
+/**
+ * Enrollment Service
+ * Enrollments follow a fixed lifecycle: registered → confirmed → active →
+ * completed. A registration can be rejected, and a student can drop out
+ * at any point before completing. Status changes only happen through
+ * transitions, which stamp their timestamp on the server and are recorded
+ * in the status history with who made them and why.
+ *
+ * Confirmed and active enrollments take a seat in their class. Once a
+ * class with a capacity is full, new enrollments join its waitlist, and
+ * a seat that frees up goes to the next student in line.
+ *
+ * Enrolling a student or activating an enrollment is refused when the
+ * class's schedule overlaps with another of the student's classes, unless
+ * staff explicitly allow it; the overlap is then noted in the history.
+ */
+
+import { Request } from 'express';
+import { EnrollmentStatus, Enrollments, Prisma } from '@prisma/client';
+import { prisma, TransactionClient } from './prisma';
+import { checkAgeEligibility, eligibilityMessage, EligibilityResult } from './eligibility';
+import { findScheduleConflicts, ScheduleConflict, scheduleConflictMessage } from './scheduleConflicts';
+
+type Client = TransactionClient | typeof prisma;
+
+export const ENROLLMENT_TRANSITIONS: Record<EnrollmentStatus, EnrollmentStatus[]> = {
+  registered: ['confirmed', 'rejected', 'dropped'],
+  waitlisted: ['confirmed', 'rejected', 'dropped'],
+  confirmed: ['active', 'dropped'],
+  active: ['completed', 'dropped'],
+  completed: [],
+  dropped: [],
+  rejected: [],
+};
+
+// Statuses that take a seat in the class
+export const SEAT_STATUSES: EnrollmentStatus[] = ['confirmed', 'active'];
+
+// Column stamped when an enrollment enters a status
+const STATUS_TIMESTAMPS = {
+  registered: 'register_at',
+  waitlisted: 'waitlisted_at',
+  confirmed: 'confirmed_at',
+  active: 'activated_at',
+  completed: 'completed_at',
+  dropped: 'dropped_at',
+  rejected: 'rejected_at',
+} as const satisfies Record<EnrollmentStatus, keyof Enrollments>;
+
+// Who changed the status; both are null for public registrations
+export interface StatusActor {
+  userId: string | null;
+  apiKeyId: string | null;
+}
+
+export type TransitionResult =
+  | { status: 'not_found' }
+  | { status: 'invalid_transition'; from: EnrollmentStatus; allowed: EnrollmentStatus[] }
+  | { status: 'class_full'; capacity: number }
+  | { status: 'schedule_conflict'; conflicts: ScheduleConflict[] }
+  | {
+    status: 'transitioned';
+    before: Enrollments;
+    enrollment: Enrollments;
+    // Waitlisted enrollments confirmed into the seat that was freed
+    promoted: Enrollments[];
+    // Overlaps that were allowed when activating
+    scheduleConflicts: ScheduleConflict[];
+  };
+
+// The student already has an enrollment in the class, possibly one in
+// the trash, which must be restored or purged first
+type EnrollmentTaken =
+  | { status: 'already_enrolled' }
+  | { status: 'in_trash'; enrollment_id: string };
+
+export type MoveEnrollmentResult =
+  | { status: 'not_found'; missing: 'enrollment' | 'student' | 'class' }
+  | Exclude<PlacementRefused, { status: 'not_found' }>
+  | EnrollmentTaken
+  | { status: 'class_full'; capacity: number }
+  | {
+    status: 'moved';
+    before: Enrollments;
+    enrollment: Enrollments;
+    // Waitlisted enrollments confirmed into the seat that was left
+    promoted: Enrollments[];
+    ageOverridden: boolean;
+    scheduleConflicts: ScheduleConflict[];
+  };
+
+export type CreateEnrollmentResult =
+  | PlacementRefused
+  | EnrollmentTaken
+  | {
+    status: 'created';
+    enrollment: Enrollments;
+    ageOverridden: boolean;
+    // Overlaps that were allowed when enrolling
+    scheduleConflicts: ScheduleConflict[];
+  };
+
+export const statusActorOf = (req: Request): StatusActor => ({
+  userId: req.user?.id ?? null,
+  apiKeyId: req.apiKey?.id ?? null,
+});
+
+export const canTransition = (from: EnrollmentStatus, to: EnrollmentStatus): boolean =>
+  ENROLLMENT_TRANSITIONS[from].includes(to);
+
+const holdsSeat = (status: EnrollmentStatus): boolean => SEAT_STATUSES.includes(status);
+
+/**
+ * Add an entry to the status history of an enrollment
+ */
+export const recordStatusChange = (
+  client: Client,
+  change: {
+    enrollmentId: string;
+    from: EnrollmentStatus | null;
+    to: EnrollmentStatus;
+    actor: StatusActor;
+    reason?: string | null;
+    at?: Date;
+  }
+) =>
+  client.enrollmentStatusHistory.create({
+    data: {
+      enrollment_id: change.enrollmentId,
+      from_status: change.from,
+      to_status: change.to,
+      reason: change.reason ?? null,
+      changed_by_id: change.actor.userId,
+      api_key_id: change.actor.apiKeyId,
+      created_at: change.at,
+    },
+  });
+
+/**
+ * Lock a class row until the transaction ends, so seats are counted and
+ * waitlist positions handed out for one enrollment at a time
+ */
+const lockClass = async (tx: TransactionClient, classId: string): Promise<void> => {
+  await tx.$queryRaw`SELECT class_id FROM Classes WHERE class_id = ${classId} FOR UPDATE`;
+};
+
+/**
+ * Lock several classes, always in the same order so that two
+ * transactions locking the same classes cannot deadlock
+ */
+export const lockClasses = async (tx: TransactionClient, classIds: string[]): Promise<void> => {
+  for (const classId of Array.from(new Set(classIds)).sort()) {
+    await lockClass(tx, classId);
+  }
+};
+
+/**
+ * Count the confirmed and active enrollments of a class
+ */
+export const countTakenSeats = (client: Client, classId: string): Promise<number> =>
+  client.enrollments.count({
+    where: { class_id: classId, status: { in: SEAT_STATUSES } },
+  });
+
+/**
+ * Change the status of a locked enrollment, stamp the time and record it.
+ * Joining the waitlist puts it at the end of the line, and leaving it
+ * moves everyone behind it one position up.
+ */
+const applyTransition = async (
+  tx: TransactionClient,
+  before: Enrollments,
+  to: EnrollmentStatus,
+  actor: StatusActor,
+  reason?: string | null
+): Promise<Enrollments> => {
+  const now = new Date();
+  const data: Prisma.EnrollmentsUpdateInput = { status: to };
+  data[STATUS_TIMESTAMPS[to]] = now;
+
+  if (to === 'waitlisted') {
+    data.waitlist_position = await nextWaitlistPosition(tx, before.class_id);
+  } else if (before.status === 'waitlisted') {
+    data.waitlist_position = null;
+  }
+
+  const enrollment = await tx.enrollments.update({
+    where: { enrollment_id: before.enrollment_id },
+    data,
+  });
+
+  if (before.status === 'waitlisted' && before.waitlist_position !== null) {
+    await tx.enrollments.updateMany({
+      where: {
+        class_id: before.class_id,
+        status: 'waitlisted',
+        waitlist_position: { gt: before.waitlist_position },
+      },
+      data: { waitlist_position: { decrement: 1 } },
+    });
+  }
+
+  await recordStatusChange(tx, {
+    enrollmentId: enrollment.enrollment_id,
+    from: before.status,
+    to,
+    actor,
+    reason,
+    at: now,
+  });
+
+  return enrollment;
+};
+
+/**
+ * Confirm waitlisted enrollments of a locked class, in order, while it
+ * has free seats
+ */
+const fillFromWaitlist = async (
+  tx: TransactionClient,
+  classId: string,
+  actor: StatusActor
+): Promise<Enrollments[]> => {
+  const cls = await tx.classes.findUnique({
+    where: { class_id: classId },
+    select: { capacity: true },
+  });
+  if (!cls) {
+    return [];
+  }
+
+  const promoted: Enrollments[] = [];
+  let taken = await countTakenSeats(tx, classId);
+
+  while (cls.capacity === null || taken < cls.capacity) {
+    const next = await tx.enrollments.findFirst({
+      where: { class_id: classId, status: 'waitlisted' },
+      orderBy: { waitlist_position: 'asc' },
+    });
+    if (!next) {
+      break;
+    }
+
+    promoted.push(await applyTransition(tx, next, 'confirmed', actor, 'Promoted from the waitlist'));
+    taken++;
+  }
+
+  return promoted;
+};
+
+type PlacementRefused =
+  | { status: 'not_found'; missing: 'student' | 'class' }
+  | {
+    status: 'ineligible';
+    eligibility: Extract<EligibilityResult, { eligible: false }>;
+    message: string;
+  }
+  | { status: 'schedule_conflict'; conflicts: ScheduleConflict[] };
+
+interface PlacementOptions {
+  ageOverrideReason?: string;
+  allowScheduleConflict?: boolean;
+}
+
+/**
+ * Check that a student may be placed in a class: both exist, the student
+ * is within the age range and the class does not clash with the student's
+ * other classes, unless the options override it. Returns the class's
+ * capacity and notes on the overrides for the status history.
+ */
+const checkPlacement = async (
+  tx: TransactionClient,
+  studentId: string,
+  classId: string,
+  options: PlacementOptions,
+  movingEnrollmentId?: string
+): Promise<
+  | PlacementRefused
+  | {
+    status: 'allowed';
+    capacity: number | null;
+    ageOverridden: boolean;
+    conflicts: ScheduleConflict[];
+    notes: string[];
+  }
+> => {
+  const [cls, student] = await Promise.all([
+    tx.classes.findUnique({
+      where: { class_id: classId },
+      select: { capacity: true, min_age: true, max_age: true, started_at: true },
+    }),
+    tx.students.findUnique({
+      where: { student_id: studentId },
+      select: { date_of_birth: true },
+    }),
+  ]);
+  if (!student) {
+    return { status: 'not_found', missing: 'student' };
+  }
+  if (!cls) {
+    return { status: 'not_found', missing: 'class' };
+  }
+
+  const eligibility = checkAgeEligibility(student, cls);
+  if (!eligibility.eligible && !options.ageOverrideReason) {
+    return { status: 'ineligible', eligibility, message: eligibilityMessage(eligibility) };
+  }
+
+  const conflicts = await findScheduleConflicts(tx, studentId, classId, movingEnrollmentId);
+  if (conflicts.length > 0 && !options.allowScheduleConflict) {
+    return { status: 'schedule_conflict', conflicts };
+  }
+
+  const notes: string[] = [];
+  if (!eligibility.eligible) {
+    notes.push(`Age requirement overridden: ${options.ageOverrideReason}`);
+  }
+  if (conflicts.length > 0) {
+    notes.push(scheduleConflictMessage(conflicts));
+  }
+
+  return {
+    status: 'allowed',
+    capacity: cls.capacity,
+    ageOverridden: !eligibility.eligible,
+    conflicts,
+    notes,
+  };
+};
+
+/**
+ * Check whether a student already has an enrollment in a class. A trashed
+ * one counts as well, since it keeps the student and class pair taken.
+ */
+const findTakenEnrollment = async (
+  tx: TransactionClient,
+  studentId: string,
+  classId: string
+): Promise<EnrollmentTaken | null> => {
+  // Mentioning deleted_at lets the query see the trash
+  const existing = await tx.enrollments.findFirst({
+    where: { student_id: studentId, class_id: classId, deleted_at: undefined },
+    select: { enrollment_id: true, deleted_at: true },
+  });
+  if (!existing) {
+    return null;
+  }
+
+  return existing.deleted_at
+    ? { status: 'in_trash', enrollment_id: existing.enrollment_id }
+    : { status: 'already_enrolled' };
+};
+
+/**
+ * Position at the end of the waitlist of a locked class
+ */
+const nextWaitlistPosition = async (tx: TransactionClient, classId: string): Promise<number> => {
+  const last = await tx.enrollments.aggregate({
+    where: { class_id: classId, status: 'waitlisted' },
+    _max: { waitlist_position: true },
+  });
+  return (last._max.waitlist_position ?? 0) + 1;
+};
+
+/**
+ * Register a student in a class. New enrollments start as registered, or
+ * as waitlisted at the end of the line when the class is full.
+ * The student must be within the class's age range unless the operator
+ * overrides the check with a reason, which is kept in the status history.
+ * Returns already_enrolled if the student is already in the class,
+ * in_trash if their enrollment in it is in the trash, and
+ * schedule_conflict if the class overlaps with another of the student's
+ * classes and allowScheduleConflict is not set.
+ * Run it inside a transaction together with other writes.
+ */
+export const createEnrollment = async (
+  data: { student_id: string; class_id: string },
+  actor: StatusActor,
+  tx: TransactionClient,
+  options: PlacementOptions = {}
+): Promise<CreateEnrollmentResult> => {
+  await lockClass(tx, data.class_id);
+
+  const taken = await findTakenEnrollment(tx, data.student_id, data.class_id);
+  if (taken) {
+    return taken;
+  }
+
+  const placement = await checkPlacement(tx, data.student_id, data.class_id, options);
+  if (placement.status !== 'allowed') {
+    return placement;
+  }
+
+  const now = new Date();
+  const full = placement.capacity !== null &&
+    (await countTakenSeats(tx, data.class_id)) >= placement.capacity;
+
+  const enrollment = await tx.enrollments.create({
+    data: {
+      student_id: data.student_id,
+      class_id: data.class_id,
+      status: full ? 'waitlisted' : 'registered',
+      register_at: now,
+      waitlisted_at: full ? now : null,
+      waitlist_position: full ? await nextWaitlistPosition(tx, data.class_id) : null,
+    },
+  });
+
+  const reasons = full ? [...placement.notes, 'Class is full'] : placement.notes;
+  await recordStatusChange(tx, {
+    enrollmentId: enrollment.enrollment_id,
+    from: null,
+    to: enrollment.status,
+    actor,
+    reason: reasons.length > 0 ? reasons.join('; ') : null,
+    at: now,
+  });
+
+  return {
+    status: 'created',
+    enrollment,
+    ageOverridden: placement.ageOverridden,
+    scheduleConflicts: placement.conflicts,
+  };
+};
+
+/**
+ * Move an enrollment to another status and stamp the time it happened.
+ * Returns invalid_transition with the allowed statuses if the lifecycle
+ * does not allow the move from the current status, and class_full when
+ * confirming it would exceed the class capacity. A registered enrollment
+ * confirmed into a full class joins the end of the waitlist instead, so
+ * it gets the next free seat in turn. Activating it returns
+ * schedule_conflict when the class overlaps with another of the student's
+ * classes, unless allowScheduleConflict is set. When a seat frees up,
+ * the next waitlisted enrollment is confirmed.
+ */
+export const transitionEnrollment = (
+  id: string,
+  to: EnrollmentStatus,
+  actor: StatusActor,
+  reason?: string | null,
+  options: { allowScheduleConflict?: boolean } = {}
+): Promise<TransitionResult> =>
+  prisma.$transaction(async (tx) => {
+    const found = await tx.enrollments.findUnique({
+      where: { enrollment_id: id },
+      select: { class_id: true },
+    });
+    if (!found) {
+      return { status: 'not_found' } as const;
+    }
+
+    await lockClass(tx, found.class_id);
+    const before = await tx.enrollments.findUniqueOrThrow({ where: { enrollment_id: id } });
+
+    if (!canTransition(before.status, to)) {
+      return {
+        status: 'invalid_transition',
+        from: before.status,
+        allowed: ENROLLMENT_TRANSITIONS[before.status],
+      } as const;
+    }
+
+    if (holdsSeat(to) && !holdsSeat(before.status)) {
+      const cls = await tx.classes.findUniqueOrThrow({
+        where: { class_id: before.class_id },
+        select: { capacity: true },
+      });
+      if (cls.capacity !== null && (await countTakenSeats(tx, before.class_id)) >= cls.capacity) {
+        if (before.status !== 'registered') {
+          return { status: 'class_full', capacity: cls.capacity } as const;
+        }
+
+        const enrollment = await applyTransition(
+          tx,
+          before,
+          'waitlisted',
+          actor,
+          [reason, 'Class is full'].filter(Boolean).join('; ')
+        );
+        return {
+          status: 'transitioned',
+          before,
+          enrollment,
+          promoted: [],
+          scheduleConflicts: [],
+        } as const;
+      }
+    }
+
+    const conflicts = to === 'active'
+      ? await findScheduleConflicts(tx, before.student_id, before.class_id)
+      : [];
+    if (conflicts.length > 0 && !options.allowScheduleConflict) {
+      return { status: 'schedule_conflict', conflicts } as const;
+    }
+
+    const historyReason = conflicts.length > 0
+      ? [reason, scheduleConflictMessage(conflicts)].filter(Boolean).join('; ')
+      : reason;
+    const enrollment = await applyTransition(tx, before, to, actor, historyReason);
+
+    const promoted = holdsSeat(before.status) && !holdsSeat(to)
+      ? await fillFromWaitlist(tx, before.class_id, actor)
+      : [];
+
+    return {
+      status: 'transitioned',
+      before,
+      enrollment,
+      promoted,
+      scheduleConflicts: conflicts,
+    } as const;
+  });
+
+/**
+ * Confirm waitlisted enrollments of a class while it has free seats,
+ * e.g. after its capacity was raised
+ */
+export const promoteFromWaitlist = (classId: string, actor: StatusActor): Promise<Enrollments[]> =>
+  prisma.$transaction(async (tx) => {
+    await lockClass(tx, classId);
+    return fillFromWaitlist(tx, classId, actor);
+  });
+
+/**
+ * Move an enrollment to another student or class, keeping its status.
+ * The new placement is checked like a new enrollment (age range and
+ * schedule, unless overridden). A confirmed or active enrollment needs a
+ * free seat in the new class and a waitlisted one joins the end of its
+ * waitlist. The class that was left closes the gap in its waitlist and
+ * gives a freed seat to the next student in line.
+ * The move is recorded in the status history.
+ */
+export const moveEnrollment = (
+  id: string,
+  changes: { student_id?: string; class_id?: string },
+  actor: StatusActor,
+  options: PlacementOptions = {}
+): Promise<MoveEnrollmentResult> =>
+  prisma.$transaction(async (tx) => {
+    const found = await tx.enrollments.findUnique({
+      where: { enrollment_id: id },
+      select: { class_id: true },
+    });
+    if (!found) {
+      return { status: 'not_found', missing: 'enrollment' } as const;
+    }
+
+    const classId = changes.class_id ?? found.class_id;
+    await lockClasses(tx, [found.class_id, classId]);
+    const before = await tx.enrollments.findUniqueOrThrow({ where: { enrollment_id: id } });
+    const studentId = changes.student_id ?? before.student_id;
+
+    if (studentId === before.student_id && classId === before.class_id) {
+      return {
+        status: 'moved',
+        before,
+        enrollment: before,
+        promoted: [],
+        ageOverridden: false,
+        scheduleConflicts: [],
+      } as const;
+    }
+
+    const taken = await findTakenEnrollment(tx, studentId, classId);
+    if (taken) {
+      return taken;
+    }
+
+    const placement = await checkPlacement(tx, studentId, classId, options, id);
+    if (placement.status !== 'allowed') {
+      return placement;
+    }
+
+    const changesClass = classId !== before.class_id;
+    if (
+      changesClass &&
+      holdsSeat(before.status) &&
+      placement.capacity !== null &&
+      (await countTakenSeats(tx, classId)) >= placement.capacity
+    ) {
+      return { status: 'class_full', capacity: placement.capacity } as const;
+    }
+
+    const enrollment = await tx.enrollments.update({
+      where: { enrollment_id: id },
+      data: {
+        student_id: studentId,
+        class_id: classId,
+        waitlist_position: changesClass && before.status === 'waitlisted'
+          ? await nextWaitlistPosition(tx, classId)
+          : undefined,
+      },
+    });
+
+    await recordStatusChange(tx, {
+      enrollmentId: id,
+      from: before.status,
+      to: enrollment.status,
+      actor,
+      reason: [
+        changesClass ? 'Moved to another class' : 'Moved to another student',
+        ...placement.notes,
+      ].join('; '),
+    });
+
+    const promoted: Enrollments[] = [];
+    if (changesClass && before.status === 'waitlisted' && before.waitlist_position !== null) {
+      await tx.enrollments.updateMany({
+        where: {
+          class_id: before.class_id,
+          status: 'waitlisted',
+          waitlist_position: { gt: before.waitlist_position },
+        },
+        data: { waitlist_position: { decrement: 1 } },
+      });
+      // The new class may have a free seat for it
+      promoted.push(...await fillFromWaitlist(tx, classId, actor));
+    }
+    if (changesClass && holdsSeat(before.status)) {
+      promoted.push(...await fillFromWaitlist(tx, before.class_id, actor));
+    }
+
+    return {
+      status: 'moved',
+      before,
+      enrollment: promoted.find((next) => next.enrollment_id === id) ?? enrollment,
+      promoted,
+      ageOverridden: placement.ageOverridden,
+      scheduleConflicts: placement.conflicts,
+    } as const;
+  });
+
+/**
+ * Number the waitlist of a locked class 1, 2, 3... keeping its order
+ */
+const renumberWaitlist = async (tx: TransactionClient, classId: string): Promise<void> => {
+  const waitlist = await tx.enrollments.findMany({
+    where: { class_id: classId, status: 'waitlisted' },
+    select: { enrollment_id: true, waitlist_position: true },
+    orderBy: [{ waitlist_position: 'asc' }, { waitlisted_at: 'asc' }],
+  });
+
+  for (const [index, enrollment] of waitlist.entries()) {
+    if (enrollment.waitlist_position !== index + 1) {
+      await tx.enrollments.update({
+        where: { enrollment_id: enrollment.enrollment_id },
+        data: { waitlist_position: index + 1 },
+      });
+    }
+  }
+};
+
+// Classes whose seats or waitlist change when these enrollments leave or return
+const affectedClassIds = (enrollments: Enrollments[]): string[] =>
+  enrollments
+    .filter((enrollment) => holdsSeat(enrollment.status) || enrollment.status === 'waitlisted')
+    .map((enrollment) => enrollment.class_id);
+
+/**
+ * Update the classes of enrollments that were moved to the trash: close
+ * the gaps in their waitlists and give freed seats to the next students
+ * in line. Returns the promoted enrollments.
+ */
+export const releaseSeats = async (
+  tx: TransactionClient,
+  enrollments: Enrollments[],
+  actor: StatusActor
+): Promise<Enrollments[]> => {
+  const classIds = affectedClassIds(enrollments);
+  await lockClasses(tx, classIds);
+
+  const promoted: Enrollments[] = [];
+  for (const classId of Array.from(new Set(classIds))) {
+    await renumberWaitlist(tx, classId);
+    promoted.push(...await fillFromWaitlist(tx, classId, actor));
+  }
+  return promoted;
+};
+
+/**
+ * Update the classes of enrollments that were restored from the trash.
+ * Restored waitlisted enrollments join the end of the waitlist. Returns
+ * class_full if the restored seats do not fit in a class any more; the
+ * caller must then roll back the restore.
+ */
+export const reclaimSeats = async (
+  tx: TransactionClient,
+  enrollments: Enrollments[],
+  actor: StatusActor
+): Promise<
+  | { status: 'class_full'; class_id: string; capacity: number }
+  | { status: 'reclaimed'; promoted: Enrollments[] }
+> => {
+  const classIds = affectedClassIds(enrollments);
+  await lockClasses(tx, classIds);
+
+  const promoted: Enrollments[] = [];
+  for (const classId of Array.from(new Set(classIds))) {
+    const cls = await tx.classes.findUnique({
+      where: { class_id: classId },
+      select: { capacity: true },
+    });
+    if (!cls) {
+      continue;
+    }
+    if (cls.capacity !== null && (await countTakenSeats(tx, classId)) > cls.capacity) {
+      return { status: 'class_full', class_id: classId, capacity: cls.capacity };
+    }
+
+    const restoredWaitlist = enrollments
+      .filter((enrollment) => enrollment.class_id === classId && enrollment.status === 'waitlisted')
+      .sort((a, b) => (a.waitlist_position ?? 0) - (b.waitlist_position ?? 0));
+    if (restoredWaitlist.length > 0) {
+      const last = await tx.enrollments.aggregate({
+        where: {
+          class_id: classId,
+          status: 'waitlisted',
+          enrollment_id: { notIn: restoredWaitlist.map((enrollment) => enrollment.enrollment_id) },
+        },
+        _max: { waitlist_position: true },
+      });
+      let position = last._max.waitlist_position ?? 0;
+      for (const enrollment of restoredWaitlist) {
+        await tx.enrollments.update({
+          where: { enrollment_id: enrollment.enrollment_id },
+          data: { waitlist_position: ++position },
+        });
+      }
+    }
+
+    promoted.push(...await fillFromWaitlist(tx, classId, actor));
+  }
+  return { status: 'reclaimed', promoted };
+};
@@ -0,0 +1,148 @@
+/**
+ * Export Service
+ * Streams list resources to the client as CSV or XLSX. Records are read
+ * from the database in batches and written out as they arrive, so large
+ * exports never sit in memory as a whole.
+ */
+
+import { once } from 'events';
+import { Response } from 'express';
+import ExcelJS from 'exceljs';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportValue = string | number | boolean | Date | null | undefined;
+
+export type ExportColumn<T> = {
+  header: string;
+  value: (record: T) => ExportValue;
+  // Column width in characters, XLSX only
+  width?: number;
+};
+
+export type ExportOptions<T> = {
+  format: ExportFormat;
+  // File name without extension; the current date is appended
+  fileName: string;
+  // Columns set to false are left out
+  columns: (ExportColumn<T> | false)[];
+  // Fetch the batch that follows the record with the given cursor,
+  // or the first batch when no cursor is given
+  fetchBatch: (cursor?: string) => Promise<T[]>;
+  cursorOf: (record: T) => string;
+};
+
+export const EXPORT_BATCH_SIZE = 500;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Prisma pagination arguments for the batch after a cursor
+ */
+export const exportBatchArgs = <K extends string>(key: K, cursor?: string) => ({
+  take: EXPORT_BATCH_SIZE,
+  ...(cursor && {
+    skip: 1,
+    cursor: { [key]: cursor } as Record<K, string>,
+  }),
+});
+
+const toCsvField = (value: ExportValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+
+  // Keep spreadsheet apps from running cell contents as formulas
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const writeChunk = async (res: Response, chunk: string): Promise<void> => {
+  if (!res.write(chunk)) {
+    await once(res, 'drain');
+  }
+};
+
+async function* readBatches<T>(options: ExportOptions<T>, first: T[]): AsyncGenerator<T[]> {
+  let batch = first;
+  while (batch.length > 0) {
+    yield batch;
+    if (batch.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    batch = await options.fetchBatch(options.cursorOf(batch[batch.length - 1]));
+  }
+}
+
+/**
+ * Stream records to the response as a CSV or XLSX attachment.
+ * The first batch is fetched before any header is sent, so errors up to
+ * that point can still be answered normally. Later errors end the
+ * response early, since the status has already been sent.
+ */
+export const streamExport = async <T>(
+  res: Response,
+  options: ExportOptions<T>
+): Promise<void> => {
+  const columns = options.columns.filter((column): column is ExportColumn<T> => column !== false);
+  const first = await options.fetchBatch();
+  const date = new Date().toISOString().slice(0, 10);
+
+  res.status(200);
+  res.setHeader('Content-Type', CONTENT_TYPES[options.format]);
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="${options.fileName}-${date}.${options.format}"`
+  );
+
+  try {
+    if (options.format === 'csv') {
+      // Byte order mark so Excel reads the file as UTF-8
+      const header = columns.map((column) => toCsvField(column.header)).join(',');
+      await writeChunk(res, `\uFEFF${header}\r\n`);
+
+      for await (const batch of readBatches(options, first)) {
+        const lines = batch.map((record) =>
+          columns.map((column) => toCsvField(column.value(record))).join(',')
+        );
+        await writeChunk(res, `${lines.join('\r\n')}\r\n`);
+      }
+
+      res.end();
+      return;
+    }
+
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: res,
+      useStyles: false,
+      useSharedStrings: false,
+    });
+    const worksheet = workbook.addWorksheet(options.fileName);
+    worksheet.columns = columns.map((column) => ({
+      header: column.header,
+      width: column.width ?? 20,
+    }));
+
+    for await (const batch of readBatches(options, first)) {
+      for (const record of batch) {
+        worksheet
+          .addRow(columns.map((column) => column.value(record) ?? null))
+          .commit();
+      }
+    }
+
+    worksheet.commit();
+    await workbook.commit();
+  } catch (error) {
+    console.error('[Export] Error streaming export:', error);
+    res.destroy(error instanceof Error ? error : undefined);
+  }
+};
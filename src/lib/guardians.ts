@@ -0,0 +1,96 @@
+/**
+ * Guardian Service
+ * Parents and other guardians are stored once and linked to their children,
+ * so siblings share a guardian. Guardians are identified by their
+ * WhatsApp number in E.164 format.
+ */
+
+import { GuardianRelationship, Prisma } from '@prisma/client';
+import { prisma, TransactionClient } from './prisma';
+import { toE164 } from '../helper/phone';
+
+type Client = TransactionClient | typeof prisma;
+
+/**
+ * Include for embedding guardians in student responses,
+ * primary guardian first
+ */
+export const studentGuardiansInclude = {
+  include: { guardian: true },
+  orderBy: [
+    { is_primary: 'desc' },
+    { created_at: 'asc' },
+  ],
+} satisfies Prisma.Students$guardiansArgs;
+
+/**
+ * Find a guardian by WhatsApp number in any format
+ */
+export const findGuardianByWhatsapp = async (whatsapp: string, client: Client = prisma) => {
+  const e164 = toE164(whatsapp);
+  if (!e164) {
+    return null;
+  }
+
+  return client.guardians.findUnique({
+    where: { whatsapp: e164 },
+  });
+};
+
+/**
+ * Find the guardian with a WhatsApp number or create it.
+ * Details of an existing guardian are left unchanged, but a guardian
+ * in the trash is restored since the number belongs to them.
+ */
+export const findOrCreateGuardian = async (
+  input: { name: string; whatsapp: string; relationship?: GuardianRelationship },
+  client: Client = prisma
+) => {
+  const whatsapp = toE164(input.whatsapp);
+  if (!whatsapp) {
+    throw new Error(`Invalid WhatsApp number: ${input.whatsapp}`);
+  }
+
+  return client.guardians.upsert({
+    where: { whatsapp },
+    create: {
+      name: input.name,
+      whatsapp,
+      relationship: input.relationship,
+    },
+    update: { deleted_at: null },
+  });
+};
+
+/**
+ * Link a guardian to a student. Marking a guardian as primary
+ * clears the flag on the student's other guardians.
+ */
+export const linkGuardian = async (
+  studentId: string,
+  guardianId: string,
+  isPrimary: boolean = false,
+  client: Client = prisma
+) => {
+  if (isPrimary) {
+    await client.studentGuardians.updateMany({
+      where: { student_id: studentId, guardian_id: { not: guardianId } },
+      data: { is_primary: false },
+    });
+  }
+
+  return client.studentGuardians.upsert({
+    where: {
+      student_id_guardian_id: {
+        student_id: studentId,
+        guardian_id: guardianId,
+      },
+    },
+    create: {
+      student_id: studentId,
+      guardian_id: guardianId,
+      is_primary: isPrimary,
+    },
+    update: { is_primary: isPrimary },
+  });
+};
@@ -1,16 +1,28 @@
 import jwt, { SignOptions } from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
-import { JWT_SECRET, JWT_EXPIRY } from "../helper/env";
+import { UserRole } from '@prisma/client';
+import { JWT_SECRET, JWT_EXPIRY, TWO_FACTOR_CHALLENGE_EXPIRY } from "../helper/env";
 
 export interface JwtPayload {
   id: string;
-  email: string;
-  role: 'admin' | 'operator';
+  email?: string;
+  whatsapp?: string; // Set on parent tokens instead of email
+  role: UserRole;
   jti?: string; // JWT ID for token revocation
   iat?: number;
   exp?: number;
 }
 
+/**
+ * Step of a two-step login a challenge token is valid for
+ */
+export type ChallengePurpose = '2fa_verify' | '2fa_setup';
+
+interface ChallengePayload {
+  id: string;
+  purpose: ChallengePurpose;
+}
+
 if (!JWT_SECRET) {
   throw new Error("JWT_SECRET is missing")
 }
@@ -22,10 +34,13 @@ if (!JWT_EXPIRY) {
 /**
  * Generate JWT token with JTI
  */
-export const generateToken = (payload: Omit<JwtPayload, 'iat' | 'exp' | 'jti'>): string => {
+export const generateToken = (
+  payload: Omit<JwtPayload, 'iat' | 'exp' | 'jti'>,
+  expiresIn: string = JWT_EXPIRY
+): string => {
   const jti = uuidv4();
   return jwt.sign({ ...payload, jti }, JWT_SECRET, {
-    expiresIn: JWT_EXPIRY
+    expiresIn
   } as SignOptions);
 };
 
@@ -34,7 +49,11 @@ export const generateToken = (payload: Omit<JwtPayload, 'iat' | 'exp' | 'jti'>):
  */
 export const verifyToken = (token: string): JwtPayload | null => {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
+    const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload & { purpose?: string };
+    // Challenge tokens are not access tokens
+    if (decoded.purpose) {
+      return null;
+    }
     return decoded;
   } catch (error) {
     console.error('JWT verification failed:', error instanceof Error ? error.message : String(error));
@@ -42,6 +61,32 @@ export const verifyToken = (token: string): JwtPayload | null => {
   }
 };
 
+/**
+ * Generate a short-lived challenge token for the second step of a login
+ */
+export const generateChallengeToken = (
+  userId: string,
+  purpose: ChallengePurpose
+): string =>
+  jwt.sign({ id: userId, purpose }, JWT_SECRET, {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRY,
+  } as SignOptions);
+
+/**
+ * Verify a challenge token and return the user ID it was issued for
+ */
+export const verifyChallengeToken = (
+  token: string,
+  purpose: ChallengePurpose
+): string | null => {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as ChallengePayload;
+    return decoded.purpose === purpose ? decoded.id : null;
+  } catch {
+    return null;
+  }
+};
+
 /**
  * Decode token without verification (use with caution)
  */
@@ -0,0 +1,210 @@
+/**
+ * Login Throttle Service
+ * Tracks failed login attempts per account and per IP address.
+ * Repeated failures trigger an exponential backoff, and an account is
+ * temporarily locked once it reaches LOGIN_LOCKOUT_THRESHOLD failures.
+ * Every attempt is recorded in LoginAttempt for review by admins.
+ */
+
+import { User } from '@prisma/client';
+import { prisma } from './prisma';
+import {
+  LOGIN_LOCKOUT_THRESHOLD,
+  LOGIN_LOCKOUT_MINUTES,
+  LOGIN_IP_MAX_FAILURES,
+  LOGIN_IP_WINDOW_MINUTES,
+} from '../helper/env';
+
+// Failures tolerated before backoff kicks in
+const ACCOUNT_BACKOFF_AFTER = 2;
+const IP_BACKOFF_AFTER = 5;
+
+const MAX_BACKOFF_SECONDS = 5 * 60;
+
+export type LoginThrottleResult =
+  | { allowed: true }
+  | {
+    allowed: false;
+    reason: 'account_locked' | 'account_backoff' | 'ip_blocked' | 'ip_backoff';
+    retryAfterSeconds: number;
+  };
+
+export interface LoginAttemptContext {
+  email: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * Delay in seconds required after the given number of failures
+ */
+const getBackoffSeconds = (failures: number, after: number): number => {
+  if (failures < after) {
+    return 0;
+  }
+  return Math.min(2 ** (failures - after), MAX_BACKOFF_SECONDS);
+};
+
+const secondsUntil = (date: Date): number =>
+  Math.max(Math.ceil((date.getTime() - Date.now()) / 1000), 1);
+
+/**
+ * Check whether a login attempt may proceed for the account and IP
+ */
+export const checkLoginThrottle = async (
+  user: Pick<User, 'failedLoginCount' | 'lastFailedLoginAt' | 'lockedUntil'> | null,
+  ipAddress?: string | null
+): Promise<LoginThrottleResult> => {
+  const now = new Date();
+
+  if (user?.lockedUntil && user.lockedUntil > now) {
+    return {
+      allowed: false,
+      reason: 'account_locked',
+      retryAfterSeconds: secondsUntil(user.lockedUntil),
+    };
+  }
+
+  if (user?.lastFailedLoginAt) {
+    const delay = getBackoffSeconds(user.failedLoginCount, ACCOUNT_BACKOFF_AFTER);
+    const allowedAt = new Date(user.lastFailedLoginAt.getTime() + delay * 1000);
+    if (allowedAt > now) {
+      return {
+        allowed: false,
+        reason: 'account_backoff',
+        retryAfterSeconds: secondsUntil(allowedAt),
+      };
+    }
+  }
+
+  if (!ipAddress) {
+    return { allowed: true };
+  }
+
+  const windowStart = new Date(now.getTime() - LOGIN_IP_WINDOW_MINUTES * 60 * 1000);
+  const ipFailures = await prisma.loginAttempt.findMany({
+    where: {
+      ipAddress,
+      success: false,
+      reason: { not: 'throttled' },
+      createdAt: { gte: windowStart },
+    },
+    select: { createdAt: true },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (ipFailures.length >= LOGIN_IP_MAX_FAILURES) {
+    const oldest = ipFailures[ipFailures.length - 1].createdAt;
+    return {
+      allowed: false,
+      reason: 'ip_blocked',
+      retryAfterSeconds: secondsUntil(
+        new Date(oldest.getTime() + LOGIN_IP_WINDOW_MINUTES * 60 * 1000)
+      ),
+    };
+  }
+
+  if (ipFailures.length > 0) {
+    const delay = getBackoffSeconds(ipFailures.length, IP_BACKOFF_AFTER);
+    const allowedAt = new Date(ipFailures[0].createdAt.getTime() + delay * 1000);
+    if (allowedAt > now) {
+      return {
+        allowed: false,
+        reason: 'ip_backoff',
+        retryAfterSeconds: secondsUntil(allowedAt),
+      };
+    }
+  }
+
+  return { allowed: true };
+};
+
+/**
+ * Record a login attempt
+ */
+export const recordLoginAttempt = async (
+  context: LoginAttemptContext,
+  result: { success: boolean; userId?: string | null; reason?: string }
+): Promise<void> => {
+  try {
+    await prisma.loginAttempt.create({
+      data: {
+        email: context.email,
+        userId: result.userId ?? null,
+        ipAddress: context.ipAddress ?? null,
+        userAgent: context.userAgent ?? null,
+        success: result.success,
+        reason: result.reason ?? null,
+      },
+    });
+  } catch (error) {
+    console.error('[LoginThrottle] Error recording login attempt:', error);
+  }
+};
+
+/**
+ * Register a failed login for an account, locking it once the
+ * failure count reaches the lockout threshold. The count is incremented
+ * in the database, so concurrent failures are all counted.
+ */
+export const registerLoginFailure = async (
+  user: Pick<User, 'id'>,
+  context: LoginAttemptContext,
+  reason: string
+): Promise<void> => {
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      failedLoginCount: { increment: 1 },
+      lastFailedLoginAt: new Date(),
+    },
+    select: { failedLoginCount: true },
+  });
+
+  const lockedUntil = updated.failedLoginCount >= LOGIN_LOCKOUT_THRESHOLD
+    ? new Date(Date.now() + LOGIN_LOCKOUT_MINUTES * 60 * 1000)
+    : undefined;
+
+  if (lockedUntil) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lockedUntil },
+    });
+    console.warn(`[LoginThrottle] Account locked until ${lockedUntil.toISOString()}: ${user.id}`);
+  }
+
+  await recordLoginAttempt(context, { success: false, userId: user.id, reason });
+};
+
+/**
+ * Register a successful login, clearing the account's failure state
+ */
+export const registerLoginSuccess = async (
+  user: Pick<User, 'id'>,
+  context: LoginAttemptContext
+): Promise<void> => {
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      failedLoginCount: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+    },
+  });
+
+  await recordLoginAttempt(context, { success: true, userId: user.id });
+};
+
+/**
+ * Clear the lockout and failure state of an account
+ */
+export const unlockUser = async (userId: string): Promise<void> => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      failedLoginCount: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+    },
+  });
+};
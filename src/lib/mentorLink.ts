@@ -0,0 +1,34 @@
+/**
+ * Mentor Link Service
+ * Validates links between user accounts with the mentor role
+ * and Mentors records.
+ */
+
+import { prisma } from './prisma';
+
+export type MentorLinkCheck =
+  | { ok: true }
+  | { ok: false; status: 404 | 409; message: string };
+
+/**
+ * Check that a mentor exists and is not linked to another user
+ */
+export const checkMentorLink = async (
+  mentorId: string,
+  userId?: string
+): Promise<MentorLinkCheck> => {
+  const mentor = await prisma.mentors.findUnique({
+    where: { mentor_id: mentorId },
+    include: { user: { select: { id: true } } },
+  });
+
+  if (!mentor) {
+    return { ok: false, status: 404, message: 'Mentor not found' };
+  }
+
+  if (mentor.user && mentor.user.id !== userId) {
+    return { ok: false, status: 409, message: 'Mentor is already linked to another user' };
+  }
+
+  return { ok: true };
+};
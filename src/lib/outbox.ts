@@ -0,0 +1,82 @@
+/**
+ * Outbox Service
+ * Delivers outgoing email and WhatsApp messages through a pluggable transport.
+ * The console and file transports are local stand-ins for development;
+ * production providers can be plugged in with setOutboxTransport().
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { OUTBOX_TRANSPORT, OUTBOX_FILE } from '../helper/env';
+
+export type OutboxChannel = 'email' | 'whatsapp';
+
+export interface OutboxMessage {
+  channel: OutboxChannel;
+  to: string;
+  subject?: string;
+  body: string;
+}
+
+export interface OutboxTransport {
+  name: string;
+  send: (message: OutboxMessage) => Promise<void>;
+}
+
+/**
+ * Print messages to the server console
+ */
+export const consoleTransport: OutboxTransport = {
+  name: 'console',
+  send: async (message) => {
+    console.log(
+      `[Outbox] ${message.channel} to ${message.to}` +
+      (message.subject ? ` | ${message.subject}` : '') +
+      `\n${message.body}`
+    );
+  },
+};
+
+/**
+ * Append messages as JSON lines to a local file
+ */
+export const createFileTransport = (filePath: string): OutboxTransport => ({
+  name: 'file',
+  send: async (message) => {
+    const line = JSON.stringify({ ...message, createdAt: new Date().toISOString() });
+    await fs.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+    await fs.appendFile(filePath, `${line}\n`, 'utf8');
+  },
+});
+
+const resolveTransport = (): OutboxTransport => {
+  switch (OUTBOX_TRANSPORT) {
+    case 'file':
+      return createFileTransport(OUTBOX_FILE);
+    case 'console':
+      return consoleTransport;
+    default:
+      throw new Error(`Unknown OUTBOX_TRANSPORT: ${OUTBOX_TRANSPORT}`);
+  }
+};
+
+let activeTransport: OutboxTransport = resolveTransport();
+
+/**
+ * Replace the transport used for outgoing messages
+ */
+export const setOutboxTransport = (transport: OutboxTransport): void => {
+  activeTransport = transport;
+};
+
+/**
+ * Send a message through the active transport
+ */
+export const sendMessage = async (message: OutboxMessage): Promise<void> => {
+  try {
+    await activeTransport.send(message);
+  } catch (error) {
+    console.error(`[Outbox] Failed to send ${message.channel} via ${activeTransport.name}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,187 @@
+/**
+ * Parent OTP Service
+ * One-time login codes for parents, delivered over WhatsApp through the outbox.
+ * Codes are hashed at rest, expire after PARENT_OTP_EXPIRY_MINUTES and
+ * allow a limited number of verification attempts. An attempt is claimed
+ * before the code is compared, so parallel guesses share the same limit,
+ * and guesses are also limited per IP address.
+ * Requests are throttled per number and per IP address before the number
+ * is looked up, so the throttle does not reveal which numbers are registered.
+ */
+
+import crypto from 'crypto';
+import { ParentAccount } from '@prisma/client';
+import { prisma } from './prisma';
+import { sendMessage } from './outbox';
+import { createRateLimiter } from './rateLimit';
+import { toE164 } from '../helper/phone';
+import {
+  PARENT_OTP_EXPIRY_MINUTES,
+  PARENT_OTP_IP_MAX_REQUESTS,
+  PARENT_OTP_IP_MAX_VERIFICATIONS,
+  PARENT_OTP_IP_WINDOW_MINUTES,
+} from '../helper/env';
+
+const MAX_ATTEMPTS = 5;
+const RESEND_INTERVAL_SECONDS = 60;
+
+// One request per number per resend interval, registered or not
+const numberLimiter = createRateLimiter(1, RESEND_INTERVAL_SECONDS * 1000);
+
+const ipLimiter = createRateLimiter(
+  PARENT_OTP_IP_MAX_REQUESTS,
+  PARENT_OTP_IP_WINDOW_MINUTES * 60 * 1000
+);
+
+const verifyIpLimiter = createRateLimiter(
+  PARENT_OTP_IP_MAX_VERIFICATIONS,
+  PARENT_OTP_IP_WINDOW_MINUTES * 60 * 1000
+);
+
+export type OtpRequestResult =
+  | { status: 'sent' | 'unknown_number' }
+  | { status: 'too_soon' | 'too_many_requests'; retryAfterSeconds: number };
+
+export type OtpVerifyResult =
+  | { status: 'verified'; parent: ParentAccount }
+  // The code is wrong, expired or out of attempts
+  | { status: 'invalid' }
+  | { status: 'too_many_requests'; retryAfterSeconds: number };
+
+const hashCode = (whatsapp: string, code: string): string =>
+  crypto.createHash('sha256').update(`${whatsapp}:${code}`).digest('hex');
+
+/**
+ * Check whether a guardian with a WhatsApp number has any children registered
+ */
+export const hasRegisteredChildren = async (whatsapp: string): Promise<boolean> => {
+  const e164 = toE164(whatsapp);
+  if (!e164) {
+    return false;
+  }
+
+  const count = await prisma.studentGuardians.count({
+    where: { guardian: { whatsapp: e164 } },
+  });
+  return count > 0;
+};
+
+/**
+ * Generate and send a login code to a parent's WhatsApp number.
+ * Returns too_many_requests when the IP address is over its limit and
+ * too_soon when a code was requested for the number within the resend
+ * interval, whether or not the number is registered.
+ */
+export const requestParentOtp = async (
+  input: string,
+  ipAddress?: string | null
+): Promise<OtpRequestResult> => {
+  const ipLimit = ipLimiter.hit(ipAddress ?? 'unknown');
+  if (!ipLimit.allowed) {
+    return { status: 'too_many_requests', retryAfterSeconds: ipLimit.retryAfterSeconds };
+  }
+
+  const whatsapp = toE164(input);
+
+  const numberLimit = numberLimiter.hit(whatsapp ?? input.trim());
+  if (!numberLimit.allowed) {
+    return { status: 'too_soon', retryAfterSeconds: numberLimit.retryAfterSeconds };
+  }
+
+  if (!whatsapp || !(await hasRegisteredChildren(whatsapp))) {
+    return { status: 'unknown_number' };
+  }
+
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+  await prisma.$transaction([
+    prisma.parentOtp.updateMany({
+      where: { whatsapp, consumedAt: null },
+      data: { consumedAt: new Date() },
+    }),
+    prisma.parentOtp.create({
+      data: {
+        whatsapp,
+        codeHash: hashCode(whatsapp, code),
+        expiresAt: new Date(Date.now() + PARENT_OTP_EXPIRY_MINUTES * 60 * 1000),
+      },
+    }),
+  ]);
+
+  await sendMessage({
+    channel: 'whatsapp',
+    to: whatsapp,
+    body:
+      `Kode login Kitapandu Anda: ${code}\n` +
+      `Berlaku ${PARENT_OTP_EXPIRY_MINUTES} menit. Jangan bagikan kode ini kepada siapa pun.`,
+  });
+
+  return { status: 'sent' };
+};
+
+/**
+ * Verify a login code and return the parent account, creating it on first login.
+ * Returns invalid if the code is wrong, expired or out of attempts, and
+ * too_many_requests when the IP address is over its limit.
+ */
+export const verifyParentOtp = async (
+  input: string,
+  code: string,
+  ipAddress?: string | null
+): Promise<OtpVerifyResult> => {
+  const ipLimit = verifyIpLimiter.hit(ipAddress ?? 'unknown');
+  if (!ipLimit.allowed) {
+    return { status: 'too_many_requests', retryAfterSeconds: ipLimit.retryAfterSeconds };
+  }
+
+  const whatsapp = toE164(input);
+  if (!whatsapp) {
+    return { status: 'invalid' };
+  }
+
+  const otp = await prisma.parentOtp.findFirst({
+    where: {
+      whatsapp,
+      consumedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!otp) {
+    return { status: 'invalid' };
+  }
+
+  // Claim an attempt first so parallel guesses cannot exceed the limit
+  const attempt = await prisma.parentOtp.updateMany({
+    where: { id: otp.id, consumedAt: null, attempts: { lt: MAX_ATTEMPTS } },
+    data: { attempts: { increment: 1 } },
+  });
+  if (attempt.count === 0) {
+    return { status: 'invalid' };
+  }
+
+  const expected = Buffer.from(otp.codeHash, 'hex');
+  const actual = Buffer.from(hashCode(whatsapp, code), 'hex');
+
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    return { status: 'invalid' };
+  }
+
+  // Conditional update so a code can only be consumed once
+  const consumed = await prisma.parentOtp.updateMany({
+    where: { id: otp.id, consumedAt: null },
+    data: { consumedAt: new Date() },
+  });
+
+  if (consumed.count === 0) {
+    return { status: 'invalid' };
+  }
+
+  const parent = await prisma.parentAccount.upsert({
+    where: { whatsapp },
+    create: { whatsapp, lastLoginAt: new Date() },
+    update: { lastLoginAt: new Date() },
+  });
+  return { status: 'verified', parent };
+};
@@ -0,0 +1,18 @@
+import bcrypt from 'bcryptjs';
+
+const SALT_ROUNDS = 10;
+
+/**
+ * Hash a plaintext password with bcrypt
+ */
+export const hashPassword = (password: string): Promise<string> =>
+  bcrypt.hash(password, SALT_ROUNDS);
+
+/**
+ * Compare a plaintext password against a bcrypt hash.
+ * Users without a password (pending invitations) never match.
+ */
+export const verifyPassword = async (
+  password: string,
+  hash: string | null
+): Promise<boolean> => (hash ? bcrypt.compare(password, hash) : false);
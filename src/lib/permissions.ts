@@ -0,0 +1,93 @@
+/**
+ * Permission Service
+ * Defines the permission catalog and resolves the permission set of a role.
+ * Role to permission mappings are stored in the RolePermission table and
+ * cached in memory for a short time.
+ */
+
+import { UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+
+export const PERMISSIONS = [
+  'announcements:write',
+  'programs:write',
+  'classes:write',
+  'mentors:write',
+  'schedules:write',
+  'students:read',
+  'students:read_pii',
+  'students:write',
+  'students:merge',
+  'submissions:review',
+  'enrollments:read',
+  'enrollments:write',
+  'donations:read',
+  'donations:write',
+  'users:manage',
+  'audit:read',
+  'data:export',
+  'trash:purge',
+  'mentor_portal:read',
+  'parent_portal:read',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Permissions that can be granted to API keys. Account management,
+// auditing, purging the trash and the portals always require a user session.
+export const API_KEY_SCOPES = PERMISSIONS.filter(
+  (permission) => ![
+    'users:manage',
+    'audit:read',
+    'trash:purge',
+    'mentor_portal:read',
+    'parent_portal:read',
+  ].includes(permission)
+) as Permission[];
+
+// Cache role permissions for one minute
+const CACHE_TTL = 60 * 1000;
+
+const cache = new Map<UserRole, { permissions: Permission[]; loadedAt: number }>();
+
+export const isPermission = (value: unknown): value is Permission =>
+  (PERMISSIONS as readonly unknown[]).includes(value);
+
+/**
+ * Get the permissions granted to a role
+ */
+export const getRolePermissions = async (role: UserRole): Promise<Permission[]> => {
+  const cached = cache.get(role);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL) {
+    return cached.permissions;
+  }
+
+  const rows = await prisma.rolePermission.findMany({
+    where: { role },
+    select: { permission: true },
+  });
+
+  const permissions = rows.map((row) => row.permission).filter(isPermission);
+  cache.set(role, { permissions, loadedAt: Date.now() });
+  return permissions;
+};
+
+/**
+ * Replace the permission set of a role
+ */
+export const setRolePermissions = async (
+  role: UserRole,
+  permissions: Permission[]
+): Promise<Permission[]> => {
+  const unique = Array.from(new Set(permissions));
+
+  await prisma.$transaction([
+    prisma.rolePermission.deleteMany({ where: { role } }),
+    prisma.rolePermission.createMany({
+      data: unique.map((permission) => ({ role, permission })),
+    }),
+  ]);
+
+  cache.delete(role);
+  return unique;
+};
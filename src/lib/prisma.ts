@@ -1,13 +1,15 @@
 import { PrismaClient } from "@prisma/client"
+import { ITXClientDenyList } from "@prisma/client/runtime/client"
 import { adapter } from "../helper/adapter"
+import { softDelete } from "./softDelete"
 
 
 const prismaClientSingleton = () => {
-  return new PrismaClient({ adapter })
+  return new PrismaClient({ adapter }).$extends(softDelete)
 }
 
 declare global {
-  var prisma: PrismaClient | undefined
+  var prisma: ReturnType<typeof prismaClientSingleton> | undefined
 }
 
 export const prisma = global.prisma ?? prismaClientSingleton()
@@ -15,3 +17,6 @@ export const prisma = global.prisma ?? prismaClientSingleton()
 if (process.env.NODE_ENV !== "production") {
   global.prisma = prisma
 }
+
+// Client passed to interactive transaction callbacks
+export type TransactionClient = Omit<typeof prisma, ITXClientDenyList>
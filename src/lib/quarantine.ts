@@ -0,0 +1,199 @@
+/**
+ * Quarantine Service
+ * Holds back public submissions flagged by spam protection in a review
+ * queue instead of creating live records. Approving a submission validates
+ * its payload again and creates the student, enrollment or registration;
+ * rejecting it only marks it as reviewed.
+ */
+
+import { Request } from 'express';
+import { Prisma, QuarantinedSubmission, SubmissionKind } from '@prisma/client';
+import { ZodError } from 'zod';
+import { prisma } from './prisma';
+import { getSessionContext } from './sessions';
+import { createStudentWithGuardian } from './students';
+import { createEnrollment, CreateEnrollmentResult } from './enrollments';
+import { createRegistration } from './registrations';
+import { scheduleConflictMessage } from './scheduleConflicts';
+import { createStudentSchema } from '../validators/students';
+import { createEnrollmentSchema } from '../validators/enrollments';
+import { createRegistrationSchema } from '../validators/registrations';
+
+export type ApproveSubmissionResult =
+  | { status: 'approved'; submission: QuarantinedSubmission; entity: { id: string; record: unknown } }
+  | { status: 'not_pending' }
+  | { status: 'invalid'; errors: ZodError['errors'] }
+  | { status: 'conflict' }
+  | { status: 'rejected_enrollment'; message: string; details?: unknown };
+
+// Thrown inside the approval transaction to undo the claim when the
+// enrollment cannot be created
+class EnrollmentNotCreated extends Error {
+  constructor(
+    readonly result: Extract<ApproveSubmissionResult, { status: 'rejected_enrollment' | 'conflict' }>
+  ) {
+    super(result.status);
+  }
+}
+
+const enrollmentNotCreated = (
+  refused: Exclude<CreateEnrollmentResult, { status: 'created' }>
+): EnrollmentNotCreated => {
+  if (refused.status === 'already_enrolled') {
+    return new EnrollmentNotCreated({ status: 'conflict' });
+  }
+  if (refused.status === 'in_trash') {
+    return new EnrollmentNotCreated({
+      status: 'rejected_enrollment',
+      message: 'The student\'s enrollment in this class is in the trash; restore it instead',
+      details: { entity: 'enrollment', id: refused.enrollment_id },
+    });
+  }
+  if (refused.status === 'not_found') {
+    return new EnrollmentNotCreated({
+      status: 'rejected_enrollment',
+      message: refused.missing === 'student' ? 'Student not found' : 'Class not found',
+    });
+  }
+  if (refused.status === 'ineligible') {
+    return new EnrollmentNotCreated({
+      status: 'rejected_enrollment',
+      message: refused.message,
+      details: refused.eligibility,
+    });
+  }
+  return new EnrollmentNotCreated({
+    status: 'rejected_enrollment',
+    message: scheduleConflictMessage(refused.conflicts),
+    details: refused.conflicts,
+  });
+};
+
+/**
+ * Check whether spam protection flagged the request
+ */
+export const shouldQuarantine = (req: Request): boolean =>
+  (req.spamReasons?.length ?? 0) > 0;
+
+/**
+ * Store a flagged submission in the review queue
+ */
+export const quarantineSubmission = (
+  req: Request,
+  kind: SubmissionKind,
+  payload: unknown
+): Promise<QuarantinedSubmission> => {
+  const { ipAddress, userAgent } = getSessionContext(req);
+
+  return prisma.quarantinedSubmission.create({
+    data: {
+      kind,
+      payload: payload as Prisma.InputJsonValue,
+      reasons: req.spamReasons ?? [],
+      ipAddress,
+      userAgent,
+    },
+  });
+};
+
+/**
+ * Create the record of a pending submission and mark it approved.
+ * Returns not_pending if it was already reviewed, invalid if the payload
+ * no longer passes validation, conflict if the enrollment exists and
+ * rejected_enrollment if the student or class is gone, the student is
+ * not within the class's age range or the class clashes with the
+ * student's schedule.
+ */
+export const approveSubmission = async (
+  id: string,
+  reviewerId: string | null
+): Promise<ApproveSubmissionResult> => {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // Claim the submission first so it cannot be approved twice
+      const claimed = await tx.quarantinedSubmission.updateMany({
+        where: { id, status: 'pending' },
+        data: {
+          status: 'approved',
+          reviewedById: reviewerId,
+          reviewedAt: new Date(),
+        },
+      });
+      if (claimed.count === 0) {
+        return { status: 'not_pending' } as const;
+      }
+
+      const submission = await tx.quarantinedSubmission.findUniqueOrThrow({ where: { id } });
+
+      const actor = { userId: reviewerId, apiKeyId: null };
+      let entity: { id: string; record: unknown };
+      if (submission.kind === 'student') {
+        const student = await createStudentWithGuardian(
+          createStudentSchema.parse(submission.payload),
+          tx
+        );
+        entity = { id: student.student_id, record: student };
+      } else if (submission.kind === 'registration') {
+        const created = await createRegistration(
+          createRegistrationSchema.parse(submission.payload),
+          actor,
+          tx
+        );
+        if (created.status !== 'created') {
+          throw enrollmentNotCreated(created);
+        }
+        entity = { id: created.registration.registration_id, record: created.registration };
+      } else {
+        // Overrides are for staff; a public submission cannot carry one
+        const {
+          age_override_reason: _ageOverride,
+          allow_schedule_conflict: _allowConflict,
+          ...payload
+        } = createEnrollmentSchema.parse(submission.payload);
+        const created = await createEnrollment(payload, actor, tx);
+        if (created.status !== 'created') {
+          throw enrollmentNotCreated(created);
+        }
+        entity = { id: created.enrollment.enrollment_id, record: created.enrollment };
+      }
+
+      const approved = await tx.quarantinedSubmission.update({
+        where: { id },
+        data: { entityId: entity.id },
+      });
+
+      return { status: 'approved', submission: approved, entity } as const;
+    });
+  } catch (error) {
+    if (error instanceof EnrollmentNotCreated) {
+      return error.result;
+    }
+    if (error instanceof ZodError) {
+      return { status: 'invalid', errors: error.errors };
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { status: 'conflict' };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Mark a pending submission as rejected.
+ * Returns false if it was already reviewed.
+ */
+export const rejectSubmission = async (
+  id: string,
+  reviewerId: string | null
+): Promise<boolean> => {
+  const rejected = await prisma.quarantinedSubmission.updateMany({
+    where: { id, status: 'pending' },
+    data: {
+      status: 'rejected',
+      reviewedById: reviewerId,
+      reviewedAt: new Date(),
+    },
+  });
+
+  return rejected.count > 0;
+};
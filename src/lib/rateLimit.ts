@@ -0,0 +1,59 @@
+/**
+ * Rate Limit Service
+ * Fixed-window request counters kept in memory per key, e.g. per IP
+ * address. Counters reset when the server restarts and are not shared
+ * between instances.
+ */
+
+// Remove expired windows every minute
+const CLEANUP_INTERVAL = 60 * 1000;
+
+export type RateLimitResult =
+  | { allowed: true; remaining: number }
+  | { allowed: false; retryAfterSeconds: number };
+
+export interface RateLimiter {
+  hit: (key: string) => RateLimitResult;
+  reset: (key: string) => void;
+}
+
+/**
+ * Create a limiter that allows `max` hits per key in each window
+ */
+export const createRateLimiter = (max: number, windowMs: number): RateLimiter => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) {
+        windows.delete(key);
+      }
+    }
+  }, CLEANUP_INTERVAL).unref();
+
+  return {
+    hit: (key) => {
+      const now = Date.now();
+      let window = windows.get(key);
+
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+
+      if (window.count >= max) {
+        return {
+          allowed: false,
+          retryAfterSeconds: Math.max(Math.ceil((window.resetAt - now) / 1000), 1),
+        };
+      }
+
+      window.count++;
+      return { allowed: true, remaining: max - window.count };
+    },
+    reset: (key) => {
+      windows.delete(key);
+    },
+  };
+};
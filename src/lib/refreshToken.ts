@@ -0,0 +1,179 @@
+/**
+ * Refresh Token Service
+ * Issues opaque, database-backed refresh tokens that rotate on every use.
+ * Tokens are stored as SHA-256 hashes and grouped into families so that
+ * reuse of an already-rotated token revokes the whole family.
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from './prisma';
+import { REFRESH_TOKEN_EXPIRY_DAYS } from '../helper/env';
+
+export type RefreshTokenRotation =
+  | { status: 'rotated'; userId: string; familyId: string; refreshToken: string; expiresAt: Date }
+  | { status: 'reused'; familyId: string }
+  | { status: 'invalid' | 'expired' };
+
+/**
+ * Hash a raw refresh token for storage and lookup
+ */
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const getExpiryDate = (): Date =>
+  new Date(Date.now() + REFRESH_TOKEN_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Issue a new refresh token, starting a new family unless one is given
+ */
+export const issueRefreshToken = async (
+  userId: string,
+  familyId: string = uuidv4()
+): Promise<{ refreshToken: string; familyId: string; expiresAt: Date }> => {
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+  const expiresAt = getExpiryDate();
+
+  await prisma.refreshToken.create({
+    data: {
+      tokenHash: hashToken(refreshToken),
+      familyId,
+      userId,
+      expiresAt,
+    },
+  });
+
+  return { refreshToken, familyId, expiresAt };
+};
+
+/**
+ * Exchange a refresh token for a new one in the same family.
+ * Presenting a token that was already rotated or revoked is treated as
+ * theft and revokes every token in its family.
+ */
+export const rotateRefreshToken = async (token: string): Promise<RefreshTokenRotation> => {
+  const existing = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!existing) {
+    return { status: 'invalid' };
+  }
+
+  if (existing.revokedAt) {
+    await revokeRefreshTokenFamily(existing.familyId);
+    console.warn(`[RefreshToken] Reuse detected. Family revoked: ${existing.familyId}`);
+    return { status: 'reused', familyId: existing.familyId };
+  }
+
+  if (new Date() > existing.expiresAt) {
+    return { status: 'expired' };
+  }
+
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+  const expiresAt = getExpiryDate();
+
+  const rotated = await prisma.$transaction(async (tx) => {
+    // Conditional update guards against two concurrent rotations of the same token
+    const revoked = await tx.refreshToken.updateMany({
+      where: { id: existing.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (revoked.count === 0) {
+      return null;
+    }
+
+    const replacement = await tx.refreshToken.create({
+      data: {
+        tokenHash: hashToken(refreshToken),
+        familyId: existing.familyId,
+        userId: existing.userId,
+        expiresAt,
+      },
+    });
+
+    await tx.refreshToken.update({
+      where: { id: existing.id },
+      data: { replacedById: replacement.id },
+    });
+
+    return replacement;
+  });
+
+  if (!rotated) {
+    await revokeRefreshTokenFamily(existing.familyId);
+    console.warn(`[RefreshToken] Concurrent reuse detected. Family revoked: ${existing.familyId}`);
+    return { status: 'reused', familyId: existing.familyId };
+  }
+
+  return {
+    status: 'rotated',
+    userId: existing.userId,
+    familyId: existing.familyId,
+    refreshToken,
+    expiresAt,
+  };
+};
+
+/**
+ * Find the family of a user's refresh token without rotating it
+ */
+export const getRefreshTokenFamily = async (token: string, userId: string): Promise<string | null> => {
+  const existing = await prisma.refreshToken.findFirst({
+    where: { tokenHash: hashToken(token), userId },
+    select: { familyId: true },
+  });
+  return existing?.familyId ?? null;
+};
+
+/**
+ * Revoke every active token in a family
+ */
+export const revokeRefreshTokenFamily = async (familyId: string): Promise<number> => {
+  const result = await prisma.refreshToken.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
+};
+
+/**
+ * Revoke every active refresh token of a user,
+ * optionally keeping one token family alive
+ */
+export const revokeUserRefreshTokens = async (
+  userId: string,
+  exceptFamilyId?: string
+): Promise<number> => {
+  const result = await prisma.refreshToken.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptFamilyId && { familyId: { not: exceptFamilyId } }),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
+};
+
+/**
+ * Remove refresh tokens that expired more than a day ago
+ */
+export const cleanupExpiredRefreshTokens = async (): Promise<void> => {
+  try {
+    const result = await prisma.refreshToken.deleteMany({
+      where: {
+        expiresAt: {
+          lt: new Date(Date.now() - 24 * 60 * 60 * 1000),
+        },
+      },
+    });
+
+    if (result.count > 0) {
+      console.log(`[RefreshToken] Cleaned up ${result.count} expired tokens`);
+    }
+  } catch (error) {
+    console.error('[RefreshToken] Error during cleanup:', error);
+  }
+};
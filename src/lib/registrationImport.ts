@@ -0,0 +1,433 @@
+/**
+ * Registration Import Service
+ * Turns spreadsheet rows into students and enrollments. Every row is
+ * validated with the student and enrollment schemas and its class is
+ * matched by name, optionally narrowed down by program name. The student
+ * must have been within the class's age range when registered, and
+ * confirmed or active rows need a free seat in their class. A current
+ * enrollment may not clash with the student's other classes, whether they
+ * are already enrolled or on earlier rows of the file. A student
+ * already registered with the same name, date of birth and guardian
+ * WhatsApp number is reused instead of created again, as is a student
+ * appearing on several rows of the file.
+ */
+
+import crypto from 'crypto';
+import { ZodError } from 'zod';
+import { prisma } from './prisma';
+import { createStudentWithGuardian } from './students';
+import { countTakenSeats, lockClasses, SEAT_STATUSES, StatusActor } from './enrollments';
+import { checkAgeEligibility, eligibilityMessage } from './eligibility';
+import {
+  CONFLICT_STATUSES,
+  conflictsBetween,
+  findScheduleConflicts,
+  scheduledClassSelect,
+  scheduleConflictMessage,
+  ScheduledClass,
+} from './scheduleConflicts';
+import { SpreadsheetRow } from './spreadsheet';
+import { createStudentSchema, CreateStudentInput } from '../validators/students';
+import { importEnrollmentSchema, ImportEnrollmentInput } from '../validators/imports';
+
+export const MAX_IMPORT_ROWS = 2000;
+
+export type ImportRowError = { field: string; message: string };
+
+export type ImportRow = {
+  line: number;
+  student_name: string | null;
+  class_name: string | null;
+  // Set when the row matches a student that already exists
+  existing_student_id: string | null;
+  errors: ImportRowError[];
+};
+
+type ValidRow = ImportRow & {
+  studentKey: string;
+  student: CreateStudentInput;
+  classId: string;
+  enrollment: ImportEnrollmentInput;
+};
+
+export type ImportPlan = {
+  rows: ImportRow[];
+  validRows: ValidRow[];
+};
+
+export type ImportResult =
+  // A class filled up between planning and committing
+  | { status: 'class_full'; class_id: string; capacity: number }
+  // A row's student was enrolled elsewhere between planning and committing
+  | { status: 'row_conflict'; line: number; message: string }
+  | { status: 'imported'; createdStudents: number; createdEnrollments: number };
+
+const normalizeText = (value: string): string =>
+  value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const toRowErrors = (error: ZodError): ImportRowError[] =>
+  error.errors.map((issue) => ({
+    field: issue.path.join('.'),
+    message: issue.message,
+  }));
+
+const studentKeyOf = (student: CreateStudentInput): string =>
+  [
+    student.whatsapp,
+    normalizeText(student.student_name),
+    student.date_of_birth.toISOString().slice(0, 10),
+  ].join('|');
+
+/**
+ * Validate spreadsheet rows and work out what importing them would do.
+ * Nothing is written; rows with errors are reported with their line.
+ */
+export const planRegistrationImport = async (
+  rows: SpreadsheetRow[]
+): Promise<ImportPlan> => {
+  const classes = await prisma.classes.findMany({
+    select: {
+      ...scheduledClassSelect,
+      min_age: true,
+      max_age: true,
+      capacity: true,
+      program: { select: { name: true } },
+    },
+  });
+  const classesById = new Map(classes.map((cls) => [cls.class_id, cls]));
+
+  const parsed = rows.map(({ line, values }) => {
+    const errors: ImportRowError[] = [];
+
+    const student = createStudentSchema.safeParse({
+      student_name: values.student_name,
+      date_of_birth: values.date_of_birth,
+      parent_name: values.parent_name,
+      whatsapp: values.whatsapp,
+      relationship: values.relationship?.toLowerCase(),
+    });
+    if (!student.success) {
+      errors.push(...toRowErrors(student.error));
+    }
+
+    const enrollment = importEnrollmentSchema.safeParse({
+      status: values.status?.toLowerCase() ?? 'registered',
+      register_at: values.register_at ?? new Date(),
+      confirmed_at: values.confirmed_at,
+    });
+    if (!enrollment.success) {
+      errors.push(...toRowErrors(enrollment.error));
+    }
+
+    const matches = values.class_name
+      ? classes.filter((cls) =>
+        normalizeText(cls.name) === normalizeText(values.class_name) &&
+        (!values.program_name ||
+          normalizeText(cls.program.name) === normalizeText(values.program_name))
+      )
+      : [];
+    if (!values.class_name) {
+      errors.push({ field: 'class_name', message: 'Class name is required' });
+    } else if (matches.length === 0) {
+      errors.push({ field: 'class_name', message: 'Class not found' });
+    } else if (matches.length > 1) {
+      errors.push({
+        field: 'class_name',
+        message: 'Several classes have this name, add a program_name column',
+      });
+    }
+
+    if (student.success && enrollment.success && matches.length === 1) {
+      const eligibility = checkAgeEligibility(
+        student.data,
+        matches[0],
+        enrollment.data.register_at
+      );
+      if (!eligibility.eligible) {
+        errors.push({ field: 'date_of_birth', message: eligibilityMessage(eligibility) });
+      }
+    }
+
+    return {
+      line,
+      student_name: values.student_name ?? null,
+      class_name: values.class_name ?? null,
+      existing_student_id: null as string | null,
+      errors,
+      student: student.success ? student.data : null,
+      enrollment: enrollment.success ? enrollment.data : null,
+      classId: matches.length === 1 ? matches[0].class_id : null,
+    };
+  });
+
+  // Look up students that are already registered under the same numbers
+  const whatsapps = Array.from(new Set(
+    parsed.flatMap((row) => (row.student ? [row.student.whatsapp] : []))
+  ));
+  const existingStudents = whatsapps.length > 0
+    ? await prisma.students.findMany({
+      where: { guardians: { some: { guardian: { whatsapp: { in: whatsapps } } } } },
+      select: {
+        student_id: true,
+        student_name: true,
+        date_of_birth: true,
+        guardians: { select: { guardian: { select: { whatsapp: true } } } },
+        enrollments: {
+          select: { class_id: true, status: true, class: { select: scheduledClassSelect } },
+        },
+      },
+    })
+    : [];
+
+  const existingByKey = new Map<string, (typeof existingStudents)[number]>();
+  for (const student of existingStudents) {
+    for (const link of student.guardians) {
+      existingByKey.set(
+        [
+          link.guardian.whatsapp,
+          normalizeText(student.student_name),
+          student.date_of_birth.toISOString().slice(0, 10),
+        ].join('|'),
+        student
+      );
+    }
+  }
+
+  // Trashed enrollments keep their student and class pair taken
+  const trashedEnrollments = existingStudents.length > 0
+    ? await prisma.enrollments.findMany({
+      where: {
+        student_id: { in: existingStudents.map((student) => student.student_id) },
+        deleted_at: { not: null },
+      },
+      select: { student_id: true, class_id: true },
+    })
+    : [];
+  const trashedPairs = new Set(
+    trashedEnrollments.map((enrollment) => `${enrollment.student_id}|${enrollment.class_id}`)
+  );
+
+  // Seats taken in each class, counting the rows imported before
+  const classIds = Array.from(new Set(parsed.flatMap((row) => (row.classId ? [row.classId] : []))));
+  const seatCounts = await prisma.enrollments.groupBy({
+    by: ['class_id'],
+    where: {
+      class_id: { in: classIds },
+      status: { in: SEAT_STATUSES },
+    },
+    _count: { _all: true },
+  });
+  const seatsTaken = new Map(seatCounts.map((row) => [row.class_id, row._count._all]));
+
+  const seen = new Map<string, number>();
+  // Classes of the current enrollments on the rows imported before
+  const importedClasses = new Map<string, ScheduledClass[]>();
+  const validRows: ValidRow[] = [];
+
+  for (const row of parsed) {
+    if (!row.student || !row.enrollment || !row.classId) {
+      continue;
+    }
+
+    const studentKey = studentKeyOf(row.student);
+    const existing = existingByKey.get(studentKey);
+    row.existing_student_id = existing?.student_id ?? null;
+
+    const enrollmentKey = `${studentKey}|${row.classId}`;
+    const duplicateOf = seen.get(enrollmentKey);
+    if (duplicateOf !== undefined) {
+      row.errors.push({
+        field: 'class_name',
+        message: `Same student and class as line ${duplicateOf}`,
+      });
+      continue;
+    }
+    if (existing?.enrollments.some((enrollment) => enrollment.class_id === row.classId)) {
+      row.errors.push({
+        field: 'class_name',
+        message: 'Student is already enrolled in this class',
+      });
+      continue;
+    }
+    if (existing && trashedPairs.has(`${existing.student_id}|${row.classId}`)) {
+      row.errors.push({
+        field: 'class_name',
+        message: 'The student\'s enrollment in this class is in the trash, restore it instead',
+      });
+      continue;
+    }
+
+    const cls = classesById.get(row.classId)!;
+    if (CONFLICT_STATUSES.includes(row.enrollment.status)) {
+      const otherClasses = [
+        ...(existing?.enrollments ?? [])
+          .filter((enrollment) => CONFLICT_STATUSES.includes(enrollment.status))
+          .map((enrollment) => enrollment.class),
+        ...(importedClasses.get(studentKey) ?? []),
+      ];
+      const conflicts = otherClasses.flatMap((other) => conflictsBetween(cls, other));
+      if (conflicts.length > 0) {
+        row.errors.push({ field: 'class_name', message: scheduleConflictMessage(conflicts) });
+        continue;
+      }
+    }
+
+    if (SEAT_STATUSES.includes(row.enrollment.status)) {
+      const { capacity } = cls;
+      const taken = seatsTaken.get(row.classId) ?? 0;
+      if (capacity !== null && taken >= capacity) {
+        row.errors.push({
+          field: 'class_name',
+          message: `Class is full (capacity ${capacity})`,
+        });
+        continue;
+      }
+      seatsTaken.set(row.classId, taken + 1);
+    }
+
+    seen.set(enrollmentKey, row.line);
+    if (CONFLICT_STATUSES.includes(row.enrollment.status)) {
+      importedClasses.set(studentKey, [...(importedClasses.get(studentKey) ?? []), cls]);
+    }
+    validRows.push({
+      ...row,
+      studentKey,
+      student: row.student,
+      enrollment: row.enrollment,
+      classId: row.classId,
+    });
+  }
+
+  return {
+    rows: parsed.map(({ line, student_name, class_name, existing_student_id, errors }) => ({
+      line,
+      student_name,
+      class_name,
+      existing_student_id,
+      errors,
+    })),
+    validRows,
+  };
+};
+
+/**
+ * Create the students and enrollments of the valid rows of a plan.
+ * Either every valid row is imported or, on failure, none is.
+ * The classes are locked and checked again: returns class_full if a
+ * class no longer has room for the rows, and row_conflict with the line
+ * if an existing student got an enrollment in the class, or one that
+ * clashes with it, since the plan was made.
+ * Active rows are stamped as activated when they were confirmed.
+ * Each enrollment's history starts with its imported status.
+ */
+export const commitRegistrationImport = (
+  plan: ImportPlan,
+  actor: StatusActor
+): Promise<ImportResult> =>
+  prisma.$transaction(async (tx) => {
+    const seatRows = new Map<string, number>();
+    for (const row of plan.validRows) {
+      if (SEAT_STATUSES.includes(row.enrollment.status)) {
+        seatRows.set(row.classId, (seatRows.get(row.classId) ?? 0) + 1);
+      }
+    }
+
+    await lockClasses(tx, plan.validRows.map((row) => row.classId));
+    for (const [classId, count] of seatRows) {
+      const { capacity } = await tx.classes.findUniqueOrThrow({
+        where: { class_id: classId },
+        select: { capacity: true },
+      });
+      if (capacity !== null && (await countTakenSeats(tx, classId)) + count > capacity) {
+        return { status: 'class_full', class_id: classId, capacity } as const;
+      }
+    }
+
+    const existingRows = plan.validRows.filter((row) => row.existing_student_id);
+    // Mentioning deleted_at lets the query see the trash
+    const taken = existingRows.length > 0
+      ? await tx.enrollments.findMany({
+        where: {
+          student_id: { in: existingRows.map((row) => row.existing_student_id!) },
+          class_id: { in: existingRows.map((row) => row.classId) },
+          deleted_at: undefined,
+        },
+        select: { student_id: true, class_id: true, deleted_at: true },
+      })
+      : [];
+    for (const row of existingRows) {
+      const enrollment = taken.find((candidate) =>
+        candidate.student_id === row.existing_student_id && candidate.class_id === row.classId
+      );
+      if (enrollment) {
+        return {
+          status: 'row_conflict',
+          line: row.line,
+          message: enrollment.deleted_at
+            ? 'The student\'s enrollment in this class is in the trash, restore it instead'
+            : 'Student is already enrolled in this class',
+        } as const;
+      }
+
+      if (CONFLICT_STATUSES.includes(row.enrollment.status)) {
+        const conflicts = await findScheduleConflicts(tx, row.existing_student_id!, row.classId);
+        if (conflicts.length > 0) {
+          return {
+            status: 'row_conflict',
+            line: row.line,
+            message: scheduleConflictMessage(conflicts),
+          } as const;
+        }
+      }
+    }
+
+    const studentIds = new Map<string, string>();
+    let createdStudents = 0;
+
+    for (const row of plan.validRows) {
+      if (studentIds.has(row.studentKey)) {
+        continue;
+      }
+      if (row.existing_student_id) {
+        studentIds.set(row.studentKey, row.existing_student_id);
+        continue;
+      }
+
+      const student = await createStudentWithGuardian(row.student, tx);
+      studentIds.set(row.studentKey, student.student_id);
+      createdStudents++;
+    }
+
+    // IDs are generated here so the history rows can refer to them
+    const rows = plan.validRows.map((row) => ({ ...row, enrollmentId: crypto.randomUUID() }));
+
+    const enrollments = await tx.enrollments.createMany({
+      data: rows.map((row) => ({
+        enrollment_id: row.enrollmentId,
+        student_id: studentIds.get(row.studentKey)!,
+        class_id: row.classId,
+        status: row.enrollment.status,
+        register_at: row.enrollment.register_at,
+        confirmed_at: row.enrollment.confirmed_at,
+        activated_at: row.enrollment.status === 'active'
+          ? row.enrollment.confirmed_at ?? row.enrollment.register_at
+          : null,
+      })),
+    });
+    await tx.enrollmentStatusHistory.createMany({
+      data: rows.map((row) => ({
+        enrollment_id: row.enrollmentId,
+        from_status: null,
+        to_status: row.enrollment.status,
+        reason: 'Imported',
+        changed_by_id: actor.userId,
+        api_key_id: actor.apiKeyId,
+      })),
+    });
+
+    return {
+      status: 'imported',
+      createdStudents,
+      createdEnrollments: enrollments.count,
+    } as const;
+  }, { timeout: 60 * 1000 });
@@ -0,0 +1,188 @@
+/**
+ * Registration Service
+ * Registers a student for a class in one step for the public form: the
+ * student is found by name and the parent's WhatsApp number or created,
+ * and a registered (or waitlisted) enrollment is added in the same
+ * transaction, so a failure leaves no orphaned student. Each registration
+ * gets a reference number parents can quote.
+ *
+ * A client can send an Idempotency-Key header; repeating a request with
+ * the same key returns the first registration instead of a new one.
+ */
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma, TransactionClient } from './prisma';
+import { createStudentWithGuardian } from './students';
+import { createEnrollment, CreateEnrollmentResult, StatusActor } from './enrollments';
+import { CreateRegistrationInput } from '../validators/registrations';
+
+// No 0/O or 1/I/L, which are easily confused when read out
+const REFERENCE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const REFERENCE_LENGTH = 8;
+
+export const registrationInclude = {
+  enrollment: {
+    include: {
+      student: {
+        select: {
+          student_id: true,
+          student_name: true,
+        },
+      },
+      class: {
+        select: {
+          class_id: true,
+          name: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.RegistrationsInclude;
+
+export type RegistrationWithEnrollment = Prisma.RegistrationsGetPayload<{
+  include: typeof registrationInclude;
+}>;
+
+type EnrollmentRefused = Exclude<CreateEnrollmentResult, { status: 'created' }>;
+
+export type CreateRegistrationResult =
+  | EnrollmentRefused
+  | { status: 'created'; registration: RegistrationWithEnrollment; studentCreated: boolean };
+
+export type RegisterResult =
+  | CreateRegistrationResult
+  | { status: 'replayed'; registration: RegistrationWithEnrollment }
+  // The key was first used with a different request
+  | { status: 'key_reused' };
+
+// Thrown inside the transaction to undo the student when no enrollment
+// could be created
+class RegistrationNotCreated extends Error {
+  constructor(readonly result: Exclude<CreateRegistrationResult, { status: 'created' }>) {
+    super(result.status);
+  }
+}
+
+/**
+ * Generate a reference number such as "REG-7K3F9QMA"
+ */
+const generateReferenceNumber = (): string =>
+  `REG-${Array.from(
+    { length: REFERENCE_LENGTH },
+    () => REFERENCE_ALPHABET[crypto.randomInt(REFERENCE_ALPHABET.length)]
+  ).join('')}`;
+
+const hashRequest = (input: CreateRegistrationInput): string =>
+  crypto.createHash('sha256').update(JSON.stringify(input)).digest('hex');
+
+/**
+ * Register a student for a class inside a transaction. A student with the
+ * same name and a guardian with the same WhatsApp number is reused.
+ * Returns the enrollment's reason when it cannot be created; the caller
+ * must then roll back the transaction, as a new student may have been
+ * created already.
+ */
+export const createRegistration = async (
+  input: CreateRegistrationInput,
+  actor: StatusActor,
+  tx: TransactionClient,
+  idempotency?: { key: string; requestHash: string }
+): Promise<CreateRegistrationResult> => {
+  const existing = await tx.students.findFirst({
+    where: {
+      student_name: input.student_name,
+      guardians: { some: { guardian: { whatsapp: input.whatsapp } } },
+    },
+    select: { student_id: true },
+    orderBy: { created_at: 'asc' },
+  });
+  const student = existing ?? await createStudentWithGuardian(input, tx);
+
+  const created = await createEnrollment(
+    { student_id: student.student_id, class_id: input.class_id },
+    actor,
+    tx
+  );
+  if (created.status !== 'created') {
+    return created;
+  }
+
+  const registration = await tx.registrations.create({
+    data: {
+      reference_number: generateReferenceNumber(),
+      enrollment_id: created.enrollment.enrollment_id,
+      idempotency_key: idempotency?.key,
+      request_hash: idempotency?.requestHash,
+    },
+    include: registrationInclude,
+  });
+
+  return { status: 'created', registration, studentCreated: !existing };
+};
+
+/**
+ * Replay the registration made with an idempotency key, or report that
+ * the key was used for a different request. Returns null for a new key.
+ */
+const replayRegistration = async (
+  key: string,
+  requestHash: string
+): Promise<RegisterResult | null> => {
+  const registration = await prisma.registrations.findUnique({
+    where: { idempotency_key: key },
+    include: registrationInclude,
+  });
+  if (!registration) {
+    return null;
+  }
+
+  return registration.request_hash === requestHash
+    ? { status: 'replayed', registration }
+    : { status: 'key_reused' };
+};
+
+/**
+ * Register a student for a class in its own transaction.
+ * With an idempotency key, a repeated request returns replayed with the
+ * first registration, and key_reused if the key came with other data.
+ */
+export const registerStudent = async (
+  input: CreateRegistrationInput,
+  actor: StatusActor,
+  idempotencyKey?: string
+): Promise<RegisterResult> => {
+  const requestHash = hashRequest(input);
+
+  if (idempotencyKey) {
+    const replay = await replayRegistration(idempotencyKey, requestHash);
+    if (replay) {
+      return replay;
+    }
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const result = await createRegistration(
+        input,
+        actor,
+        tx,
+        idempotencyKey ? { key: idempotencyKey, requestHash } : undefined
+      );
+      if (result.status !== 'created') {
+        throw new RegistrationNotCreated(result);
+      }
+      return result;
+    });
+  } catch (error) {
+    if (error instanceof RegistrationNotCreated) {
+      return error.result;
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      // A double-submit that raced the first request to the same key
+      const replay = idempotencyKey ? await replayRegistration(idempotencyKey, requestHash) : null;
+      return replay ?? { status: 'already_enrolled' };
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,127 @@
+/**
+ * Schedule Conflict Service
+ * A student cannot attend two classes at once. Two classes conflict when
+ * their date ranges (started_at to ended_at) overlap and they have a
+ * schedule on the same day of the week with overlapping times. Only the
+ * student's current enrollments count; completed, dropped and rejected
+ * ones do not.
+ */
+
+import { EnrollmentStatus, Prisma } from '@prisma/client';
+import { prisma, TransactionClient } from './prisma';
+
+type Client = TransactionClient | typeof prisma;
+
+// Enrollments the student is still attending or waiting to attend
+export const CONFLICT_STATUSES: EnrollmentStatus[] = ['registered', 'waitlisted', 'confirmed', 'active'];
+
+export const scheduledClassSelect = {
+  class_id: true,
+  name: true,
+  started_at: true,
+  ended_at: true,
+  schedules: {
+    select: {
+      schedule_id: true,
+      day_of_week: true,
+      start_time: true,
+      end_time: true,
+    },
+  },
+} satisfies Prisma.ClassesSelect;
+
+export type ScheduledClass = Prisma.ClassesGetPayload<{ select: typeof scheduledClassSelect }>;
+type Slot = ScheduledClass['schedules'][number];
+
+export interface ScheduleConflict {
+  class: { class_id: string; name: string };
+  schedule: Slot;
+  conflicts_with: { class_id: string; name: string };
+  conflicting_schedule: Slot;
+}
+
+const datesOverlap = (a: ScheduledClass, b: ScheduledClass): boolean =>
+  a.started_at <= b.ended_at && b.started_at <= a.ended_at;
+
+// Times are zero-padded "HH:mm", so they compare as strings
+const slotsOverlap = (a: Slot, b: Slot): boolean =>
+  a.day_of_week === b.day_of_week && a.start_time < b.end_time && b.start_time < a.end_time;
+
+/**
+ * List the overlapping schedules of two classes
+ */
+export const conflictsBetween = (cls: ScheduledClass, other: ScheduledClass): ScheduleConflict[] => {
+  if (cls.class_id === other.class_id || !datesOverlap(cls, other)) {
+    return [];
+  }
+
+  return cls.schedules.flatMap((schedule) =>
+    other.schedules
+      .filter((otherSchedule) => slotsOverlap(schedule, otherSchedule))
+      .map((otherSchedule) => ({
+        class: { class_id: cls.class_id, name: cls.name },
+        schedule,
+        conflicts_with: { class_id: other.class_id, name: other.name },
+        conflicting_schedule: otherSchedule,
+      }))
+  );
+};
+
+/**
+ * Find the schedules of a class that overlap with the student's other
+ * current enrollments, leaving out an enrollment that is being moved
+ */
+export const findScheduleConflicts = async (
+  client: Client,
+  studentId: string,
+  classId: string,
+  excludeEnrollmentId?: string
+): Promise<ScheduleConflict[]> => {
+  const [cls, enrollments] = await Promise.all([
+    client.classes.findUnique({
+      where: { class_id: classId },
+      select: scheduledClassSelect,
+    }),
+    client.enrollments.findMany({
+      where: {
+        student_id: studentId,
+        class_id: { not: classId },
+        enrollment_id: excludeEnrollmentId ? { not: excludeEnrollmentId } : undefined,
+        status: { in: CONFLICT_STATUSES },
+      },
+      select: { class: { select: scheduledClassSelect } },
+    }),
+  ]);
+  if (!cls) {
+    return [];
+  }
+
+  return enrollments.flatMap((enrollment) => conflictsBetween(cls, enrollment.class));
+};
+
+/**
+ * Find every pair of the student's current enrollments whose schedules
+ * overlap. Each conflict is listed once.
+ */
+export const listStudentConflicts = async (studentId: string): Promise<ScheduleConflict[]> => {
+  const enrollments = await prisma.enrollments.findMany({
+    where: { student_id: studentId, status: { in: CONFLICT_STATUSES } },
+    select: { class: { select: scheduledClassSelect } },
+    orderBy: { register_at: 'asc' },
+  });
+
+  return enrollments.flatMap((enrollment, index) =>
+    enrollments
+      .slice(index + 1)
+      .flatMap((other) => conflictsBetween(enrollment.class, other.class))
+  );
+};
+
+/**
+ * Describe conflicts for a message or status history entry, e.g.
+ * "Schedule overlaps with Robotics, Chess"
+ */
+export const scheduleConflictMessage = (conflicts: ScheduleConflict[]): string => {
+  const names = new Set(conflicts.map((conflict) => conflict.conflicts_with.name));
+  return `Schedule overlaps with ${Array.from(names).join(', ')}`;
+};
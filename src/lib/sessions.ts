@@ -0,0 +1,237 @@
+/**
+ * Session Registry Service
+ * Records every login as a session holding the current access token JTI
+ * and its refresh token family, so sessions can be listed and revoked.
+ * Parent logins are recorded the same way, without refresh tokens.
+ */
+
+import { Request } from 'express';
+import { ParentAccount, User } from '@prisma/client';
+import { prisma } from './prisma';
+import { generateToken, getTokenExpiration, getTokenJti } from './jwt';
+import { blacklistTokens } from './tokenBlacklist';
+import { issueRefreshToken, revokeRefreshTokenFamily } from './refreshToken';
+import { PARENT_TOKEN_EXPIRY } from '../helper/env';
+
+export interface SessionContext {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+/**
+ * Extract the client IP and user agent of a request
+ */
+export const getSessionContext = (req: Request): SessionContext => ({
+  ipAddress: req.ip ?? null,
+  userAgent: req.get('user-agent') ?? null,
+});
+
+/**
+ * Sign an access token for a user and return it with its JTI and expiry
+ */
+const signAccessToken = (user: Pick<User, 'id' | 'email' | 'role'>) => {
+  const token = generateToken({
+    id: user.id,
+    email: user.email,
+    role: user.role,
+  });
+
+  return {
+    token,
+    jti: getTokenJti(token) as string,
+    tokenExpiresAt: new Date((getTokenExpiration(token) as number) * 1000),
+  };
+};
+
+/**
+ * Start a new session for a user: issues an access token and a refresh
+ * token family, and records them in the session registry
+ */
+export const startSession = async (
+  user: Pick<User, 'id' | 'email' | 'role'>,
+  context: SessionContext
+): Promise<SessionTokens> => {
+  const { token, jti, tokenExpiresAt } = signAccessToken(user);
+  const { refreshToken, familyId, expiresAt } = await issueRefreshToken(user.id);
+
+  await prisma.userSession.create({
+    data: {
+      jti,
+      familyId,
+      userId: user.id,
+      ipAddress: context.ipAddress ?? null,
+      userAgent: context.userAgent ?? null,
+      tokenExpiresAt,
+      expiresAt,
+    },
+  });
+
+  return { token, refreshToken, refreshTokenExpiresAt: expiresAt };
+};
+
+/**
+ * Issue a new access token for the session owning a rotated refresh token family
+ */
+export const refreshSession = async (
+  user: Pick<User, 'id' | 'email' | 'role'>,
+  familyId: string,
+  refreshTokenExpiresAt: Date
+): Promise<string> => {
+  const { token, jti, tokenExpiresAt } = signAccessToken(user);
+
+  await prisma.userSession.updateMany({
+    where: { familyId, revokedAt: null },
+    data: {
+      jti,
+      tokenExpiresAt,
+      expiresAt: refreshTokenExpiresAt,
+      refreshedAt: new Date(),
+    },
+  });
+
+  return token;
+};
+
+/**
+ * List the sessions of a user that are neither revoked nor expired
+ */
+export const listActiveSessions = async (userId: string) => {
+  return prisma.userSession.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    select: {
+      jti: true,
+      ipAddress: true,
+      userAgent: true,
+      issuedAt: true,
+      refreshedAt: true,
+      tokenExpiresAt: true,
+      expiresAt: true,
+    },
+    orderBy: { issuedAt: 'desc' },
+  });
+};
+
+/**
+ * Revoke a single session: blacklists its current access token and
+ * revokes its refresh token family.
+ * Returns false if no active session matches.
+ */
+export const revokeSession = async (
+  where: { jti: string } | { familyId: string },
+  userId?: string
+): Promise<boolean> => {
+  const session = await prisma.userSession.findFirst({
+    where: { ...where, userId, revokedAt: null },
+  });
+
+  if (!session) {
+    return false;
+  }
+
+  await prisma.userSession.update({
+    where: { id: session.id },
+    data: { revokedAt: new Date() },
+  });
+
+  if (session.tokenExpiresAt > new Date()) {
+    await blacklistTokens([
+      { jti: session.jti, expiresAt: session.tokenExpiresAt, userId: session.userId },
+    ]);
+  }
+
+  if (session.familyId) {
+    await revokeRefreshTokenFamily(session.familyId);
+  }
+
+  console.log(`[Sessions] Session revoked. JTI: ${session.jti}`);
+  return true;
+};
+
+/**
+ * Start a new session for a parent: issues a parent access token and
+ * records it in the session registry
+ */
+export const startParentSession = async (
+  parent: Pick<ParentAccount, 'id' | 'whatsapp'>,
+  context: SessionContext
+): Promise<string> => {
+  const token = generateToken(
+    {
+      id: parent.id,
+      whatsapp: parent.whatsapp,
+      role: 'parent',
+    },
+    PARENT_TOKEN_EXPIRY
+  );
+
+  await prisma.parentSession.create({
+    data: {
+      jti: getTokenJti(token) as string,
+      parentId: parent.id,
+      ipAddress: context.ipAddress ?? null,
+      userAgent: context.userAgent ?? null,
+      expiresAt: new Date((getTokenExpiration(token) as number) * 1000),
+    },
+  });
+
+  return token;
+};
+
+/**
+ * List the sessions of a parent that are neither revoked nor expired
+ */
+export const listActiveParentSessions = async (parentId: string) => {
+  return prisma.parentSession.findMany({
+    where: {
+      parentId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    select: {
+      jti: true,
+      ipAddress: true,
+      userAgent: true,
+      issuedAt: true,
+      expiresAt: true,
+    },
+    orderBy: { issuedAt: 'desc' },
+  });
+};
+
+/**
+ * Revoke a parent session by blacklisting its access token.
+ * Returns false if no active session of the parent matches.
+ */
+export const revokeParentSession = async (jti: string, parentId: string): Promise<boolean> => {
+  const session = await prisma.parentSession.findFirst({
+    where: { jti, parentId, revokedAt: null },
+  });
+
+  if (!session) {
+    return false;
+  }
+
+  await prisma.parentSession.update({
+    where: { id: session.id },
+    data: { revokedAt: new Date() },
+  });
+
+  if (session.expiresAt > new Date()) {
+    await blacklistTokens([
+      { jti: session.jti, expiresAt: session.expiresAt, userId: session.parentId },
+    ]);
+  }
+
+  console.log(`[Sessions] Parent session revoked. JTI: ${session.jti}`);
+  return true;
+};
@@ -0,0 +1,174 @@
+/**
+ * Soft Delete Extension
+ * Domain records are not removed when deleted but moved to the trash by
+ * setting `deleted_at` (see lib/trash.ts). This Prisma client extension
+ * hides trashed rows from every query by default, including included
+ * relations, relation counts and `some`/`none` relation filters.
+ * A query whose where clause mentions `deleted_at`, e.g.
+ * `deleted_at: { not: null }`, is left alone so it can see the trash.
+ */
+
+import { Prisma } from '@prisma/client';
+
+type Args = Record<string, unknown>;
+
+export const SOFT_DELETE_MODELS: readonly Prisma.ModelName[] = [
+  'Announcements',
+  'Donation',
+  'DonationAllocation',
+  'Students',
+  'Guardians',
+  'Programs',
+  'Mentors',
+  'Classes',
+  'Enrollments',
+  'Schedules',
+];
+
+const NOT_TRASHED = { deleted_at: null };
+
+// Filters that hide trashed rows from the list relations of each model.
+// Student guardian links are never trashed themselves, so they are hidden
+// while the student or guardian on the other side is in the trash.
+const LIST_RELATION_FILTERS: Partial<Record<Prisma.ModelName, Record<string, Args>>> = {
+  Donation: { allocations: NOT_TRASHED },
+  Students: { enrollments: NOT_TRASHED, guardians: { guardian: NOT_TRASHED } },
+  Guardians: { students: { student: NOT_TRASHED } },
+  Programs: { classes: NOT_TRASHED },
+  Mentors: { classes: NOT_TRASHED },
+  Classes: { enrollments: NOT_TRASHED, schedules: NOT_TRASHED },
+};
+
+// Related model of every relation field, to walk nested arguments
+const RELATED_MODELS = new Map(
+  Prisma.dmmf.datamodel.models.map((model) => [
+    model.name,
+    new Map(
+      model.fields
+        .filter((field) => field.kind === 'object')
+        .map((field) => [field.name, field.type as Prisma.ModelName])
+    ),
+  ])
+);
+
+// Operations on existing rows that must not touch trashed ones
+const FILTERED_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'updateManyAndReturn',
+]);
+
+const isObject = (value: unknown): value is Args =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+const andWhere = (where: unknown, filter: Args): Args =>
+  isObject(where) && Object.keys(where).length > 0 ? { AND: [where, filter] } : filter;
+
+const mapValues = (object: Args, map: (value: unknown, key: string) => unknown): Args =>
+  Object.fromEntries(Object.entries(object).map(([key, value]) => [key, map(value, key)]));
+
+/**
+ * Hide trashed rows from the relation filters of a where clause
+ */
+const filterWhere = (model: Prisma.ModelName, where: Args): Args => {
+  const related = RELATED_MODELS.get(model);
+  const listFilters = LIST_RELATION_FILTERS[model] ?? {};
+
+  return mapValues(where, (value, key) => {
+    if (key === 'AND' || key === 'OR' || key === 'NOT') {
+      return Array.isArray(value)
+        ? value.map((item) => (isObject(item) ? filterWhere(model, item) : item))
+        : isObject(value) ? filterWhere(model, value) : value;
+    }
+
+    const relatedModel = related?.get(key);
+    if (!relatedModel || !isObject(value)) {
+      return value;
+    }
+
+    const listFilter = listFilters[key];
+    if (listFilter) {
+      return mapValues(value, (inner, operator) => {
+        const nested = isObject(inner) ? filterWhere(relatedModel, inner) : inner;
+        return operator === 'some' || operator === 'none' ? andWhere(nested, listFilter) : nested;
+      });
+    }
+
+    // To-one relation filter, either direct or wrapped in is / isNot
+    return 'is' in value || 'isNot' in value
+      ? mapValues(value, (inner) => (isObject(inner) ? filterWhere(relatedModel, inner) : inner))
+      : filterWhere(relatedModel, value);
+  });
+};
+
+/**
+ * Hide trashed rows from the relations and counts of an include or select
+ */
+const filterSelection = (model: Prisma.ModelName, selection: Args): Args => {
+  const related = RELATED_MODELS.get(model);
+  const listFilters = LIST_RELATION_FILTERS[model] ?? {};
+
+  return mapValues(selection, (value, key) => {
+    if (key === '_count' && isObject(value) && isObject(value.select)) {
+      return {
+        ...value,
+        select: mapValues(value.select, (count, field) => {
+          const listFilter = listFilters[field];
+          if (!listFilter || !count) {
+            return count;
+          }
+          return isObject(count)
+            ? { ...count, where: andWhere(count.where, listFilter) }
+            : { where: listFilter };
+        }),
+      };
+    }
+
+    const relatedModel = related?.get(key);
+    if (!relatedModel || !value) {
+      return value;
+    }
+
+    const args = isObject(value) ? filterArgs(relatedModel, value) : {};
+    const listFilter = listFilters[key];
+    if (listFilter) {
+      return { ...args, where: andWhere(args.where, listFilter) };
+    }
+    return isObject(value) ? args : value;
+  });
+};
+
+const filterArgs = (model: Prisma.ModelName, args: Args): Args => ({
+  ...args,
+  ...(isObject(args.where) && { where: filterWhere(model, args.where) }),
+  ...(isObject(args.include) && { include: filterSelection(model, args.include) }),
+  ...(isObject(args.select) && { select: filterSelection(model, args.select) }),
+});
+
+export const softDelete = Prisma.defineExtension({
+  name: 'softDelete',
+  query: {
+    $allModels: {
+      $allOperations({ model, operation, args, query }) {
+        const filtered = filterArgs(model, (args ?? {}) as Args);
+
+        if (SOFT_DELETE_MODELS.includes(model) && FILTERED_OPERATIONS.has(operation)) {
+          const where = isObject(filtered.where) ? filtered.where : {};
+          if (!('deleted_at' in where)) {
+            filtered.where = { ...where, deleted_at: null };
+          }
+        }
+
+        return query(filtered as typeof args);
+      },
+    },
+  },
+});
@@ -0,0 +1,102 @@
+/**
+ * Spreadsheet Service
+ * Reads the first worksheet of an uploaded CSV or XLSX file into rows
+ * keyed by the header row. Headers are matched case-insensitively with
+ * spaces and dashes treated as underscores ("Student Name" becomes
+ * student_name), and every cell is read as a trimmed string.
+ */
+
+import { Readable } from 'stream';
+import ExcelJS from 'exceljs';
+
+export type SpreadsheetRow = {
+  // Line number in the file, counting the header as line 1
+  line: number;
+  values: Record<string, string>;
+};
+
+const SPREADSHEET_EXTENSIONS = ['.csv', '.xlsx'];
+
+/**
+ * Check whether a file name has a supported spreadsheet extension
+ */
+export const isSpreadsheetFile = (fileName: string): boolean =>
+  SPREADSHEET_EXTENSIONS.some((extension) => fileName.toLowerCase().endsWith(extension));
+
+const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+/**
+ * Convert a cell to text. Dates at midnight UTC become YYYY-MM-DD,
+ * other dates a full ISO timestamp.
+ */
+const cellToString = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  if (typeof value === 'object') {
+    if ('result' in value) {
+      return cellToString(value.result as ExcelJS.CellValue);
+    }
+    if ('richText' in value) {
+      return value.richText.map((part) => part.text).join('');
+    }
+    if ('text' in value) {
+      return String(value.text);
+    }
+    return '';
+  }
+  return String(value).trim();
+};
+
+/**
+ * Read the rows of a CSV or XLSX file. Rows without any values are skipped.
+ */
+export const readSpreadsheet = async (
+  buffer: Buffer,
+  fileName: string
+): Promise<SpreadsheetRow[]> => {
+  const workbook = new ExcelJS.Workbook();
+
+  const worksheet = fileName.toLowerCase().endsWith('.csv')
+    ? await workbook.csv.read(Readable.from(buffer), {
+      // Keep dates and numbers as written
+      map: (value: string) => value,
+    })
+    : (await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer)).worksheets[0];
+
+  if (!worksheet || worksheet.rowCount === 0) {
+    return [];
+  }
+
+  const headers: string[] = [];
+  worksheet.getRow(1).eachCell((cell, column) => {
+    headers[column] = normalizeHeader(cellToString(cell.value));
+  });
+
+  const rows: SpreadsheetRow[] = [];
+  worksheet.eachRow((row, line) => {
+    if (line === 1) {
+      return;
+    }
+
+    const values: Record<string, string> = {};
+    row.eachCell((cell, column) => {
+      const header = headers[column];
+      const value = cellToString(cell.value);
+      if (header && value) {
+        values[header] = value;
+      }
+    });
+
+    if (Object.keys(values).length > 0) {
+      rows.push({ line, values });
+    }
+  });
+
+  return rows;
+};
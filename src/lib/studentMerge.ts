@@ -0,0 +1,394 @@
+/**
+ * Student Merge Service
+ * Finds students that were registered more than once and merges them.
+ * Likely duplicates share a guardian (the same normalized WhatsApp number)
+ * and have similar names; siblings share a guardian too, so the name is
+ * what tells them apart. Merging moves enrollments and guardians to the
+ * surviving student and deletes the duplicates in one transaction.
+ * Registrations follow the enrollments they belong to, so their reference
+ * numbers keep working.
+ */
+
+import { EnrollmentStatus, Enrollments, Prisma, Students } from '@prisma/client';
+import { prisma, TransactionClient } from './prisma';
+import { lockClasses, recordStatusChange, releaseSeats, StatusActor } from './enrollments';
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.8;
+
+// When both records are enrolled in the same class, the enrollment
+// that got furthest wins
+const STATUS_RANK: Record<EnrollmentStatus, number> = {
+  active: 6,
+  completed: 5,
+  confirmed: 4,
+  registered: 3,
+  waitlisted: 2,
+  dropped: 1,
+  rejected: 0,
+};
+
+const duplicateCandidateSelect = {
+  student_id: true,
+  student_name: true,
+  date_of_birth: true,
+  date_of_birth_estimated: true,
+  created_at: true,
+  _count: { select: { enrollments: true } },
+} satisfies Prisma.StudentsSelect;
+
+type DuplicateCandidate = Prisma.StudentsGetPayload<{ select: typeof duplicateCandidateSelect }>;
+
+export interface DuplicateGroup {
+  students: DuplicateCandidate[];
+  whatsapp: string[];
+  similarity: number;
+}
+
+export type MergeResult =
+  | { status: 'not_found'; studentIds: string[] }
+  | {
+    status: 'merged';
+    mergedStudents: Students[];
+    movedEnrollments: number;
+    combinedEnrollments: number;
+    // Waitlisted enrollments confirmed into seats freed by combining
+    promoted: Enrollments[];
+  };
+
+/**
+ * Lowercase a name and strip punctuation and repeated whitespace
+ */
+const normalizeName = (name: string): string =>
+  name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Similarity of two names between 0 and 1. A name that is the start of
+ * the other ("Ali" and "Ali Rahman") counts as a match.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+
+  if (!left || !right) {
+    return 0;
+  }
+  if (left.startsWith(`${right} `) || right.startsWith(`${left} `)) {
+    return 1;
+  }
+
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+};
+
+/**
+ * Find groups of students that share a guardian and have similar names.
+ * Groups with the highest similarity come first.
+ */
+export const findDuplicateStudents = async (
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD
+): Promise<DuplicateGroup[]> => {
+  const shared = await prisma.studentGuardians.groupBy({
+    by: ['guardian_id'],
+    having: { student_id: { _count: { gt: 1 } } },
+  });
+
+  if (shared.length === 0) {
+    return [];
+  }
+
+  const guardians = await prisma.guardians.findMany({
+    where: { guardian_id: { in: shared.map((row) => row.guardian_id) } },
+    select: {
+      whatsapp: true,
+      students: {
+        select: { student: { select: duplicateCandidateSelect } },
+      },
+    },
+  });
+
+  // Union-find over the matching pairs, so that three registrations
+  // of the same child end up in one group
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const root = parent.get(id) ?? id;
+    if (root === id) {
+      return id;
+    }
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+
+  const students = new Map<string, DuplicateCandidate>();
+  const pairs: { a: string; b: string; whatsapp: string; similarity: number }[] = [];
+
+  for (const guardian of guardians) {
+    const linked = guardian.students.map((link) => link.student);
+    for (let i = 0; i < linked.length; i++) {
+      for (let j = i + 1; j < linked.length; j++) {
+        const similarity = nameSimilarity(linked[i].student_name, linked[j].student_name);
+        if (similarity < threshold) {
+          continue;
+        }
+        students.set(linked[i].student_id, linked[i]);
+        students.set(linked[j].student_id, linked[j]);
+        pairs.push({
+          a: linked[i].student_id,
+          b: linked[j].student_id,
+          whatsapp: guardian.whatsapp,
+          similarity,
+        });
+        parent.set(find(linked[i].student_id), find(linked[j].student_id));
+      }
+    }
+  }
+
+  const groups = new Map<string, { ids: Set<string>; whatsapp: Set<string>; similarity: number }>();
+  for (const pair of pairs) {
+    const root = find(pair.a);
+    const group = groups.get(root) ?? { ids: new Set(), whatsapp: new Set(), similarity: 0 };
+    group.ids.add(pair.a);
+    group.ids.add(pair.b);
+    group.whatsapp.add(pair.whatsapp);
+    group.similarity = Math.max(group.similarity, pair.similarity);
+    groups.set(root, group);
+  }
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      students: Array.from(group.ids)
+        .map((id) => students.get(id)!)
+        .sort((a, b) => a.created_at.getTime() - b.created_at.getTime()),
+      whatsapp: Array.from(group.whatsapp),
+      similarity: Math.round(group.similarity * 100) / 100,
+    }))
+    .sort((a, b) => b.similarity - a.similarity);
+};
+
+/**
+ * Hand the registrations of an enrollment that is about to be deleted to
+ * the enrollment that replaces it
+ */
+const moveRegistrations = (tx: TransactionClient, fromId: string, toId: string) =>
+  tx.registrations.updateMany({
+    where: { enrollment_id: fromId },
+    data: { enrollment_id: toId },
+  });
+
+/**
+ * Merge duplicate students into a surviving student.
+ * Enrollments in classes the survivor is not enrolled in are moved over.
+ * When both are enrolled in the same class (student_id and class_id are
+ * unique together), the enrollments are combined: the furthest status
+ * wins and the earliest registration date is kept; a status change is
+ * recorded in the enrollment's history. A seat freed by combining goes to
+ * the waitlist and the waitlist is renumbered. Trashed enrollments of the
+ * duplicates are moved over too unless the survivor is already in the
+ * class. Guardians are linked to the survivor, and a known date of birth
+ * replaces an estimated one.
+ * Returns not_found with the missing IDs if any student does not exist.
+ */
+export const mergeStudents = (
+  survivorId: string,
+  duplicateIds: string[],
+  actor: StatusActor
+): Promise<MergeResult> =>
+  prisma.$transaction(async (tx) => {
+    const ids = [survivorId, ...duplicateIds];
+    const students = await tx.students.findMany({
+      where: { student_id: { in: ids } },
+      include: { enrollments: true, guardians: true },
+    });
+
+    const missing = ids.filter((id) => !students.some((student) => student.student_id === id));
+    if (missing.length > 0) {
+      return { status: 'not_found', studentIds: missing } as const;
+    }
+
+    const survivor = students.find((student) => student.student_id === survivorId)!;
+    const duplicates = duplicateIds.map(
+      (id) => students.find((student) => student.student_id === id)!
+    );
+
+    const [survivorTrashed, duplicatesTrashed] = await Promise.all([
+      tx.enrollments.findMany({
+        where: { student_id: survivorId, deleted_at: { not: null } },
+      }),
+      tx.enrollments.findMany({
+        where: { student_id: { in: duplicateIds }, deleted_at: { not: null } },
+        orderBy: { created_at: 'asc' },
+      }),
+    ]);
+
+    const duplicateEnrollments = duplicates.flatMap((duplicate) => duplicate.enrollments);
+    await lockClasses(tx, duplicateEnrollments.map((enrollment) => enrollment.class_id));
+
+    const byClass = new Map<string, Enrollments>(
+      survivor.enrollments.map((enrollment) => [enrollment.class_id, enrollment])
+    );
+    let movedEnrollments = 0;
+    let combinedEnrollments = 0;
+    const promoted: Enrollments[] = [];
+
+    // A trashed enrollment of the survivor would still block moving an
+    // enrollment into the same class, so it is purged and its
+    // registrations go to the enrollment that takes its place
+    const replacing = new Map<string, string>();
+    for (const enrollment of duplicateEnrollments) {
+      if (!replacing.has(enrollment.class_id)) {
+        replacing.set(enrollment.class_id, enrollment.enrollment_id);
+      }
+    }
+    const purged = survivorTrashed.filter((enrollment) => replacing.has(enrollment.class_id));
+    for (const enrollment of purged) {
+      await moveRegistrations(tx, enrollment.enrollment_id, replacing.get(enrollment.class_id)!);
+    }
+    await tx.enrollments.deleteMany({
+      where: {
+        enrollment_id: { in: purged.map((enrollment) => enrollment.enrollment_id) },
+        deleted_at: { not: null },
+      },
+    });
+
+    for (const duplicate of duplicates) {
+      for (const enrollment of duplicate.enrollments) {
+        const kept = byClass.get(enrollment.class_id);
+
+        if (!kept) {
+          const moved = await tx.enrollments.update({
+            where: { enrollment_id: enrollment.enrollment_id },
+            data: { student_id: survivorId },
+          });
+          byClass.set(moved.class_id, moved);
+          movedEnrollments++;
+          continue;
+        }
+
+        const winner = STATUS_RANK[enrollment.status] > STATUS_RANK[kept.status]
+          ? enrollment
+          : kept;
+
+        await moveRegistrations(tx, enrollment.enrollment_id, kept.enrollment_id);
+        await tx.enrollments.delete({
+          where: { enrollment_id: enrollment.enrollment_id },
+        });
+        const combined = await tx.enrollments.update({
+          where: { enrollment_id: kept.enrollment_id },
+          data: {
+            status: winner.status,
+            register_at: enrollment.register_at < kept.register_at
+              ? enrollment.register_at
+              : kept.register_at,
+            confirmed_at: winner.confirmed_at ?? kept.confirmed_at ?? enrollment.confirmed_at,
+            activated_at: winner.activated_at ?? kept.activated_at ?? enrollment.activated_at,
+            waitlist_position: winner.waitlist_position,
+            waitlisted_at: winner.waitlisted_at,
+            completed_at: winner.completed_at,
+            dropped_at: winner.dropped_at,
+            rejected_at: winner.rejected_at,
+          },
+        });
+        if (combined.status !== kept.status) {
+          await recordStatusChange(tx, {
+            enrollmentId: combined.enrollment_id,
+            from: kept.status,
+            to: combined.status,
+            actor,
+            reason: 'Combined with the enrollment of a merged duplicate student',
+          });
+        }
+        byClass.set(combined.class_id, combined);
+        combinedEnrollments++;
+
+        // One of the two seats or waitlist places is gone
+        promoted.push(...await releaseSeats(tx, [enrollment, kept], actor));
+      }
+    }
+
+    // The duplicates' trashed enrollments stay restorable under the
+    // survivor; where the survivor is already in the class they are
+    // deleted with the duplicate and their registrations move over
+    const survivorClasses = new Map<string, string>([
+      ...survivorTrashed
+        .filter((enrollment) => !replacing.has(enrollment.class_id))
+        .map((enrollment) => [enrollment.class_id, enrollment.enrollment_id] as const),
+      ...Array.from(byClass.values()).map(
+        (enrollment) => [enrollment.class_id, enrollment.enrollment_id] as const
+      ),
+    ]);
+    for (const enrollment of duplicatesTrashed) {
+      const held = survivorClasses.get(enrollment.class_id);
+      if (held) {
+        await moveRegistrations(tx, enrollment.enrollment_id, held);
+        continue;
+      }
+      await tx.enrollments.updateMany({
+        where: { enrollment_id: enrollment.enrollment_id, deleted_at: { not: null } },
+        data: { student_id: survivorId },
+      });
+      survivorClasses.set(enrollment.class_id, enrollment.enrollment_id);
+    }
+
+    let hasPrimary = survivor.guardians.some((link) => link.is_primary);
+    const linkedGuardianIds = new Set(survivor.guardians.map((link) => link.guardian_id));
+    for (const link of duplicates.flatMap((duplicate) => duplicate.guardians)) {
+      if (linkedGuardianIds.has(link.guardian_id)) {
+        continue;
+      }
+      const isPrimary = !hasPrimary && link.is_primary;
+      await tx.studentGuardians.create({
+        data: {
+          student_id: survivorId,
+          guardian_id: link.guardian_id,
+          is_primary: isPrimary,
+        },
+      });
+      linkedGuardianIds.add(link.guardian_id);
+      hasPrimary ||= isPrimary;
+    }
+
+    const knownBirthDate = duplicates.find((duplicate) => !duplicate.date_of_birth_estimated);
+    if (survivor.date_of_birth_estimated && knownBirthDate) {
+      await tx.students.update({
+        where: { student_id: survivorId },
+        data: {
+          date_of_birth: knownBirthDate.date_of_birth,
+          date_of_birth_estimated: false,
+        },
+      });
+    }
+
+    await tx.students.deleteMany({
+      where: { student_id: { in: duplicateIds } },
+    });
+
+    return {
+      status: 'merged',
+      mergedStudents: duplicates.map(({ enrollments, guardians, ...student }) => student),
+      movedEnrollments,
+      combinedEnrollments,
+      promoted,
+    } as const;
+  });
@@ -0,0 +1,44 @@
+/**
+ * Student Service
+ * Registers a student together with the parent as primary guardian.
+ * The parent is matched to an existing guardian by WhatsApp number, so
+ * siblings share one guardian; otherwise a new guardian is created.
+ */
+
+import { prisma, TransactionClient } from './prisma';
+import { findOrCreateGuardian, linkGuardian, studentGuardiansInclude } from './guardians';
+import { CreateStudentInput } from '../validators/students';
+
+type Client = TransactionClient | typeof prisma;
+
+/**
+ * Create a student and link the parent as primary guardian.
+ * Run it inside a transaction so a failure leaves no orphaned guardian.
+ * Returns the student with its guardians.
+ */
+export const createStudentWithGuardian = async (
+  input: CreateStudentInput,
+  client: Client = prisma
+) => {
+  const guardian = await findOrCreateGuardian(
+    {
+      name: input.parent_name,
+      whatsapp: input.whatsapp,
+      relationship: input.relationship,
+    },
+    client
+  );
+
+  const student = await client.students.create({
+    data: {
+      student_name: input.student_name,
+      date_of_birth: input.date_of_birth,
+    },
+  });
+  await linkGuardian(student.student_id, guardian.guardian_id, true, client);
+
+  return client.students.findUniqueOrThrow({
+    where: { student_id: student.student_id },
+    include: { guardians: studentGuardiansInclude },
+  });
+};
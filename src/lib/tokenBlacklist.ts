@@ -5,6 +5,7 @@
  */
 
 import { prisma } from './prisma';
+import { cleanupExpiredRefreshTokens, revokeUserRefreshTokens } from './refreshToken';
 
 // Cleanup interval (every 5 minutes)
 const CLEANUP_INTERVAL = 5 * 60 * 1000;
@@ -15,6 +16,7 @@ const CLEANUP_INTERVAL = 5 * 60 * 1000;
 export const initializeBlacklist = (): void => {
   setInterval(() => {
     cleanupExpiredTokens();
+    cleanupExpiredRefreshTokens();
   }, CLEANUP_INTERVAL);
 };
 
@@ -37,6 +39,27 @@ export const blacklistToken = async (jti: string, expiresAt: number, userId?: st
   }
 };
 
+/**
+ * Add several tokens to the blacklist, ignoring JTIs already present
+ */
+export const blacklistTokens = async (
+  tokens: { jti: string; expiresAt: Date; userId?: string }[]
+): Promise<number> => {
+  if (tokens.length === 0) {
+    return 0;
+  }
+
+  const result = await prisma.tokenBlacklist.createMany({
+    data: tokens.map((token) => ({
+      jti: token.jti,
+      expiresAt: token.expiresAt,
+      userId: token.userId || null,
+    })),
+    skipDuplicates: true,
+  });
+  return result.count;
+};
+
 /**
  * Check if a JTI is blacklisted
  */
@@ -123,18 +146,51 @@ export const getBlacklistStats = async (): Promise<{
 };
 
 /**
- * Revoke all tokens for a specific user
+ * Revoke all live tokens for a specific user.
+ * Blacklists the current access token of every active session
+ * and revokes all of the user's refresh tokens.
+ * Pass `exceptJti` to keep the caller's own session and its refresh tokens.
  */
-export const revokeUserTokens = async (userId: string): Promise<number> => {
+export const revokeUserTokens = async (
+  userId: string,
+  options: { exceptJti?: string } = {}
+): Promise<number> => {
   try {
-    const result = await prisma.tokenBlacklist.deleteMany({
-      where: { userId },
+    const now = new Date();
+    const sessions = await prisma.userSession.findMany({
+      where: { userId, revokedAt: null },
+      select: { id: true, jti: true, familyId: true, tokenExpiresAt: true },
+    });
+
+    const kept = sessions.find((session) => session.jti === options.exceptJti);
+    const revoked = sessions.filter((session) => session !== kept);
+
+    await blacklistTokens(
+      revoked
+        .filter((session) => session.tokenExpiresAt > now)
+        .map((session) => ({
+          jti: session.jti,
+          expiresAt: session.tokenExpiresAt,
+          userId,
+        }))
+    );
+
+    await prisma.userSession.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(kept && { id: { not: kept.id } }),
+      },
+      data: { revokedAt: now },
     });
-    console.log(`[TokenBlacklist] Revoked ${result.count} tokens for user: ${userId}`);
-    return result.count;
+
+    await revokeUserRefreshTokens(userId, kept?.familyId ?? undefined);
+
+    console.log(`[TokenBlacklist] Revoked ${revoked.length} sessions for user: ${userId}`);
+    return revoked.length;
   } catch (error) {
     console.error('[TokenBlacklist] Error revoking user tokens:', error);
-    return 0;
+    throw error;
   }
 };
 
@@ -0,0 +1,395 @@
+/**
+ * Trash Service
+ * Deleting a domain record moves it to the trash by setting `deleted_at`;
+ * the soft delete extension (lib/softDelete.ts) then hides it from every
+ * query. Records that depend on it, such as the classes of a mentor and
+ * their enrollments and schedules, are trashed along with it using the
+ * same timestamp, so restoring the record brings them back too.
+ * Trashing enrollments frees their seats for the waitlist; restoring them
+ * takes their seats back, which fails when the class is full by then.
+ * Purging removes a trashed record and its dependents for good.
+ */
+
+import { Enrollments } from '@prisma/client';
+import { Permission } from './permissions';
+import { prisma, TransactionClient } from './prisma';
+import { reclaimSeats, releaseSeats, StatusActor } from './enrollments';
+
+type Client = TransactionClient | typeof prisma;
+
+type Row = Record<string, unknown>;
+
+export const TRASH_ENTITY_TYPES = [
+  'announcement',
+  'donation',
+  'donation_allocation',
+  'student',
+  'guardian',
+  'program',
+  'mentor',
+  'class',
+  'enrollment',
+  'schedule',
+] as const;
+
+export type TrashEntityType = typeof TRASH_ENTITY_TYPES[number];
+
+interface TrashEntity {
+  // Prisma client property of the model
+  model: string;
+  idField: string;
+  labelField: string;
+  // Permission needed to delete and restore it
+  permission: Permission;
+  // Dependent records that are trashed and restored along with it
+  children?: { entity: TrashEntityType; foreignKey: string }[];
+}
+
+export const TRASH_ENTITIES: Record<TrashEntityType, TrashEntity> = {
+  announcement: {
+    model: 'announcements',
+    idField: 'announcements_id',
+    labelField: 'title',
+    permission: 'announcements:write',
+  },
+  donation: {
+    model: 'donation',
+    idField: 'donation_id',
+    labelField: 'title',
+    permission: 'donations:write',
+    children: [{ entity: 'donation_allocation', foreignKey: 'donation_id' }],
+  },
+  donation_allocation: {
+    model: 'donationAllocation',
+    idField: 'donation_allocation_id',
+    labelField: 'title',
+    permission: 'donations:write',
+  },
+  student: {
+    model: 'students',
+    idField: 'student_id',
+    labelField: 'student_name',
+    permission: 'students:write',
+    children: [{ entity: 'enrollment', foreignKey: 'student_id' }],
+  },
+  guardian: {
+    model: 'guardians',
+    idField: 'guardian_id',
+    labelField: 'name',
+    permission: 'students:write',
+  },
+  program: {
+    model: 'programs',
+    idField: 'program_id',
+    labelField: 'name',
+    permission: 'programs:write',
+    children: [{ entity: 'class', foreignKey: 'program_id' }],
+  },
+  mentor: {
+    model: 'mentors',
+    idField: 'mentor_id',
+    labelField: 'name',
+    permission: 'mentors:write',
+    children: [{ entity: 'class', foreignKey: 'mentor_id' }],
+  },
+  class: {
+    model: 'classes',
+    idField: 'class_id',
+    labelField: 'name',
+    permission: 'classes:write',
+    children: [
+      { entity: 'enrollment', foreignKey: 'class_id' },
+      { entity: 'schedule', foreignKey: 'class_id' },
+    ],
+  },
+  enrollment: {
+    model: 'enrollments',
+    idField: 'enrollment_id',
+    labelField: 'status',
+    permission: 'enrollments:write',
+  },
+  schedule: {
+    model: 'schedules',
+    idField: 'schedule_id',
+    labelField: 'start_time',
+    permission: 'schedules:write',
+  },
+};
+
+// Records each type depends on, which must be restored before it
+const PARENTS = Object.fromEntries(
+  TRASH_ENTITY_TYPES.map((type) => [
+    type,
+    TRASH_ENTITY_TYPES.flatMap((parent) =>
+      (TRASH_ENTITIES[parent].children ?? [])
+        .filter((child) => child.entity === type)
+        .map((child) => ({ entity: parent, foreignKey: child.foreignKey }))
+    ),
+  ])
+) as Record<TrashEntityType, { entity: TrashEntityType; foreignKey: string }[]>;
+
+// The delegates differ per model; only these calls are needed here
+interface TrashDelegate {
+  findFirst: (args: { where: Row }) => Promise<Row | null>;
+  findMany: (args: { where: Row; select?: Row; orderBy?: Row; take?: number }) => Promise<Row[]>;
+  count: (args: { where: Row }) => Promise<number>;
+  updateMany: (args: { where: Row; data: Row }) => Promise<{ count: number }>;
+  deleteMany: (args: { where: Row }) => Promise<{ count: number }>;
+}
+
+const delegateOf = (client: Client, type: TrashEntityType): TrashDelegate =>
+  (client as unknown as Record<string, TrashDelegate>)[TRASH_ENTITIES[type].model];
+
+export interface TrashItem {
+  entity: TrashEntityType;
+  id: string;
+  label: string;
+  deleted_at: Date;
+  record: Row;
+}
+
+export type CascadeCounts = Partial<Record<TrashEntityType, number>>;
+
+// Records that hold no enrollments are trashed without an actor
+const NO_ACTOR: StatusActor = { userId: null, apiKeyId: null };
+
+// IDs of the dependents trashed or restored along with a record
+type CascadedIds = Partial<Record<TrashEntityType, string[]>>;
+
+export type TrashResult =
+  | { status: 'not_found' }
+  | {
+    status: 'trashed';
+    record: Row;
+    cascaded: CascadeCounts;
+    // Waitlisted enrollments confirmed into the seats that were freed
+    promoted: Enrollments[];
+  };
+
+export type RestoreResult =
+  | { status: 'not_found' }
+  | { status: 'parent_trashed'; parent: { entity: TrashEntityType; id: string } }
+  | { status: 'class_full'; class_id: string; capacity: number }
+  | { status: 'restored'; record: Row; cascaded: CascadeCounts; promoted: Enrollments[] };
+
+// Thrown inside the restore transaction to undo it when a class is full
+class RestoreRefused extends Error {
+  constructor(readonly result: Extract<RestoreResult, { status: 'class_full' }>) {
+    super(result.status);
+  }
+}
+
+export type PurgeResult =
+  | { status: 'not_found' }
+  | { status: 'purged'; record: Row };
+
+export const isTrashEntityType = (value: unknown): value is TrashEntityType =>
+  (TRASH_ENTITY_TYPES as readonly unknown[]).includes(value);
+
+const toTrashItem = (type: TrashEntityType, record: Row): TrashItem => ({
+  entity: type,
+  id: record[TRASH_ENTITIES[type].idField] as string,
+  label: String(record[TRASH_ENTITIES[type].labelField]),
+  deleted_at: record.deleted_at as Date,
+  record,
+});
+
+/**
+ * Set `deleted_at` on the dependents of records whose `deleted_at`
+ * matches, all the way down
+ */
+const cascade = async (
+  client: Client,
+  type: TrashEntityType,
+  parentIds: string[],
+  match: Date | null,
+  deletedAt: Date | null,
+  cascaded: CascadedIds
+): Promise<void> => {
+  for (const child of TRASH_ENTITIES[type].children ?? []) {
+    const { idField } = TRASH_ENTITIES[child.entity];
+    const delegate = delegateOf(client, child.entity);
+
+    const rows = await delegate.findMany({
+      where: { [child.foreignKey]: { in: parentIds }, deleted_at: match },
+      select: { [idField]: true },
+    });
+    if (rows.length === 0) {
+      continue;
+    }
+
+    const ids = rows.map((row) => row[idField] as string);
+    await delegate.updateMany({
+      where: { [idField]: { in: ids }, deleted_at: match },
+      data: { deleted_at: deletedAt },
+    });
+    cascaded[child.entity] = [...(cascaded[child.entity] ?? []), ...ids];
+
+    await cascade(client, child.entity, ids, match, deletedAt, cascaded);
+  }
+};
+
+const countsOf = (cascaded: CascadedIds): CascadeCounts =>
+  Object.fromEntries(
+    Object.entries(cascaded).map(([type, ids]) => [type, ids.length])
+  ) as CascadeCounts;
+
+// The enrollment itself or the enrollments that cascaded with a record
+const enrollmentIdsOf = (type: TrashEntityType, id: string, cascaded: CascadedIds): string[] =>
+  type === 'enrollment' ? [id] : cascaded.enrollment ?? [];
+
+/**
+ * Move a record and its dependents to the trash. Seats of trashed
+ * enrollments go to the next waitlisted students.
+ */
+export const moveToTrash = (
+  type: TrashEntityType,
+  id: string,
+  actor: StatusActor = NO_ACTOR
+): Promise<TrashResult> =>
+  prisma.$transaction(async (tx) => {
+    const { idField } = TRASH_ENTITIES[type];
+    const delegate = delegateOf(tx, type);
+
+    const record = await delegate.findFirst({ where: { [idField]: id } });
+    if (!record) {
+      return { status: 'not_found' } as const;
+    }
+
+    const deletedAt = new Date();
+    await delegate.updateMany({
+      where: { [idField]: id, deleted_at: null },
+      data: { deleted_at: deletedAt },
+    });
+
+    const cascaded: CascadedIds = {};
+    await cascade(tx, type, [id], null, deletedAt, cascaded);
+
+    const enrollments = await tx.enrollments.findMany({
+      where: { enrollment_id: { in: enrollmentIdsOf(type, id, cascaded) }, deleted_at: deletedAt },
+    });
+    const promoted = await releaseSeats(tx, enrollments, actor);
+
+    return { status: 'trashed', record, cascaded: countsOf(cascaded), promoted } as const;
+  });
+
+/**
+ * Restore a trashed record and the dependents that were trashed with it.
+ * Returns parent_trashed if a record it depends on is still in the trash,
+ * and class_full if restored enrollments no longer fit in their class.
+ */
+export const restoreFromTrash = async (
+  type: TrashEntityType,
+  id: string,
+  actor: StatusActor = NO_ACTOR
+): Promise<RestoreResult> => {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const { idField } = TRASH_ENTITIES[type];
+      const delegate = delegateOf(tx, type);
+
+      const record = await delegate.findFirst({
+        where: { [idField]: id, deleted_at: { not: null } },
+      });
+      if (!record) {
+        return { status: 'not_found' } as const;
+      }
+
+      for (const parent of PARENTS[type]) {
+        const trashedParent = await delegateOf(tx, parent.entity).findFirst({
+          where: {
+            [TRASH_ENTITIES[parent.entity].idField]: record[parent.foreignKey],
+            deleted_at: { not: null },
+          },
+        });
+        if (trashedParent) {
+          return {
+            status: 'parent_trashed',
+            parent: { entity: parent.entity, id: record[parent.foreignKey] as string },
+          } as const;
+        }
+      }
+
+      const deletedAt = record.deleted_at as Date;
+      await delegate.updateMany({
+        where: { [idField]: id, deleted_at: deletedAt },
+        data: { deleted_at: null },
+      });
+
+      const cascaded: CascadedIds = {};
+      await cascade(tx, type, [id], deletedAt, null, cascaded);
+
+      const enrollments = await tx.enrollments.findMany({
+        where: { enrollment_id: { in: enrollmentIdsOf(type, id, cascaded) } },
+      });
+      const seats = await reclaimSeats(tx, enrollments, actor);
+      if (seats.status === 'class_full') {
+        throw new RestoreRefused(seats);
+      }
+
+      const restored = await delegate.findFirst({ where: { [idField]: id } });
+      return {
+        status: 'restored',
+        record: restored ?? record,
+        cascaded: countsOf(cascaded),
+        promoted: seats.promoted,
+      } as const;
+    });
+  } catch (error) {
+    if (error instanceof RestoreRefused) {
+      return error.result;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Permanently delete a trashed record. Its dependents are removed by
+ * the database along with it.
+ */
+export const purgeFromTrash = async (type: TrashEntityType, id: string): Promise<PurgeResult> => {
+  const { idField } = TRASH_ENTITIES[type];
+  const delegate = delegateOf(prisma, type);
+  const where = { [idField]: id, deleted_at: { not: null } };
+
+  const record = await delegate.findFirst({ where });
+  if (!record) {
+    return { status: 'not_found' };
+  }
+
+  await delegate.deleteMany({ where });
+  return { status: 'purged', record };
+};
+
+/**
+ * List trashed records of the given types, most recently deleted first
+ */
+export const listTrash = async (
+  types: TrashEntityType[],
+  page: number,
+  limit: number
+): Promise<{ items: TrashItem[]; totalItems: number }> => {
+  const where = { deleted_at: { not: null } };
+
+  // Every type's newest records up to this page, merged by deletion time
+  const perType = await Promise.all(
+    types.map(async (type) => {
+      const delegate = delegateOf(prisma, type);
+      const [count, rows] = await Promise.all([
+        delegate.count({ where }),
+        delegate.findMany({ where, orderBy: { deleted_at: 'desc' }, take: page * limit }),
+      ]);
+      return { count, items: rows.map((row) => toTrashItem(type, row)) };
+    })
+  );
+
+  const items = perType
+    .flatMap((result) => result.items)
+    .sort((a, b) => b.deleted_at.getTime() - a.deleted_at.getTime())
+    .slice((page - 1) * limit, page * limit);
+
+  return {
+    items,
+    totalItems: perType.reduce((total, result) => total + result.count, 0),
+  };
+};
@@ -0,0 +1,174 @@
+/**
+ * Two-Factor Authentication Service
+ * TOTP enrollment, verification and recovery codes for staff accounts.
+ * A secret is stored when setup starts and only takes effect once the user
+ * confirms it with a valid code. Recovery codes are single-use and only
+ * their SHA-256 hash is stored.
+ */
+
+import crypto from 'crypto';
+import { User } from '@prisma/client';
+import { prisma } from './prisma';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from './totp';
+import { TWO_FACTOR_ISSUER, REQUIRE_ADMIN_2FA } from '../helper/env';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+type TwoFactorUser = Pick<
+  User,
+  'id' | 'twoFactorEnabled' | 'twoFactorSecret' | 'twoFactorLastStep'
+>;
+
+const hashRecoveryCode = (userId: string, code: string): string =>
+  crypto
+    .createHash('sha256')
+    .update(`${userId}:${code.replace(/-/g, '').toLowerCase()}`)
+    .digest('hex');
+
+/**
+ * Check whether a user must use two-factor authentication to log in
+ */
+export const isTwoFactorRequired = (user: Pick<User, 'role'>): boolean =>
+  REQUIRE_ADMIN_2FA && user.role === 'admin';
+
+/**
+ * Start enrollment by storing a new pending secret.
+ * Returns the secret and its otpauth:// URI for the QR code.
+ */
+export const beginTwoFactorSetup = async (
+  user: Pick<User, 'id' | 'email'>
+): Promise<{ secret: string; otpauthUri: string }> => {
+  const secret = generateTotpSecret();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorSecret: secret,
+      twoFactorLastStep: null,
+    },
+  });
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, user.email, TWO_FACTOR_ISSUER),
+  };
+};
+
+/**
+ * Replace the recovery codes of a user and return the new plaintext codes
+ */
+export const generateRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map((code) => ({
+        userId,
+        codeHash: hashRecoveryCode(userId, code),
+      })),
+    }),
+  ]);
+
+  return codes;
+};
+
+/**
+ * Confirm the pending secret with a code and enable two-factor authentication.
+ * Returns the recovery codes, or null if there is no pending secret or
+ * the code is invalid.
+ */
+export const enableTwoFactor = async (
+  user: TwoFactorUser,
+  code: string
+): Promise<string[] | null> => {
+  if (user.twoFactorEnabled || !user.twoFactorSecret) {
+    return null;
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step === null) {
+    return null;
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorEnabled: true,
+      twoFactorConfirmedAt: new Date(),
+      twoFactorLastStep: step,
+    },
+  });
+
+  return generateRecoveryCodes(user.id);
+};
+
+/**
+ * Verify a TOTP code or recovery code of a user with two-factor enabled.
+ * TOTP codes cannot be replayed and recovery codes are consumed on use.
+ * Returns the method that matched, or null if the code is invalid.
+ */
+export const verifyTwoFactorCode = async (
+  user: TwoFactorUser,
+  code: string
+): Promise<TwoFactorMethod | null> => {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return null;
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step !== null) {
+    // Conditional update so each time step can only be used once
+    const updated = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [
+          { twoFactorLastStep: null },
+          { twoFactorLastStep: { lt: step } },
+        ],
+      },
+      data: { twoFactorLastStep: step },
+    });
+    return updated.count > 0 ? 'totp' : null;
+  }
+
+  const consumed = await prisma.recoveryCode.updateMany({
+    where: {
+      userId: user.id,
+      codeHash: hashRecoveryCode(user.id, code),
+      usedAt: null,
+    },
+    data: { usedAt: new Date() },
+  });
+
+  return consumed.count > 0 ? 'recovery_code' : null;
+};
+
+/**
+ * Count the unused recovery codes of a user
+ */
+export const countRecoveryCodes = (userId: string): Promise<number> =>
+  prisma.recoveryCode.count({ where: { userId, usedAt: null } });
+
+/**
+ * Turn off two-factor authentication and remove the secret and recovery codes
+ */
+export const disableTwoFactor = async (userId: string): Promise<void> => {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorConfirmedAt: null,
+        twoFactorLastStep: null,
+      },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+  ]);
+};
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken, JwtPayload } from '../lib/jwt';
 import { isJtiBlacklisted } from '../lib/tokenBlacklist';
+import { getRolePermissions, Permission } from '../lib/permissions';
+import { verifyApiKey, getApiKeyScopes } from '../lib/apiKeys';
 import { errorResponse } from '../helper/apiResponse';
 
 /**
@@ -10,64 +12,135 @@ declare global {
   namespace Express {
     interface Request {
       user?: JwtPayload;
+      apiKey?: { id: string; name: string };
+      permissions?: Permission[];
     }
   }
 }
 
 /**
- * Authentication middleware - verifies JWT token from Authorization header
+ * Verify the bearer token of a request.
+ * Sends a 401 response and returns null if the token is missing,
+ * malformed, invalid, expired or revoked.
+ */
+const authenticateRequest = async (
+  req: Request,
+  res: Response
+): Promise<JwtPayload | null> => {
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader) {
+    errorResponse(res, 'Missing authorization header', 401);
+    return null;
+  }
+
+  const parts = authHeader.split(' ');
+  if (parts.length !== 2 || parts[0] !== 'Bearer') {
+    errorResponse(
+      res,
+      'Invalid authorization header format. Expected: Bearer <token>',
+      401
+    );
+    return null;
+  }
+
+  const token = parts[1];
+  const payload = verifyToken(token);
+
+  if (!payload) {
+    errorResponse(res, 'Invalid or expired token', 401);
+    return null;
+  }
+
+  // Check if JTI is blacklisted
+  const isBlacklisted = await isJtiBlacklisted(payload.jti || '');
+  if (isBlacklisted) {
+    errorResponse(res, 'Token has been revoked. Please login again.', 401);
+    return null;
+  }
+
+  return payload;
+};
+
+/**
+ * Verify the API key of a request and return its scopes.
+ * Sends a 401 response and returns null if the key is unknown,
+ * expired or revoked.
+ */
+const authenticateApiKey = async (
+  req: Request,
+  res: Response,
+  key: string
+): Promise<Permission[] | null> => {
+  const apiKey = await verifyApiKey(key, req.ip);
+
+  if (!apiKey) {
+    errorResponse(res, 'Invalid, expired or revoked API key', 401);
+    return null;
+  }
+
+  req.apiKey = { id: apiKey.id, name: apiKey.name };
+  return getApiKeyScopes(apiKey);
+};
+
+/**
+ * Permission middleware factory - verifies JWT token from Authorization header
+ * and requires every listed permission to be granted to the user's role.
  * Expects: Authorization: Bearer <token>
- * Only allows users with 'admin' or 'operator' roles
+ * Machine clients may send `X-API-Key: <key>` instead, in which case the
+ * permissions must be among the key's scopes.
+ * Without arguments it only requires a valid staff session; API keys and
+ * parent tokens are rejected there since those routes act on the
+ * logged-in user account.
  */
-export const authMiddleware = async (
+export const requirePermission = (...permissions: Permission[]) => async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    const authHeader = req.headers.authorization;
+    const apiKey = req.get('x-api-key');
+    let granted: Permission[];
 
-    if (!authHeader) {
-      errorResponse(res, 'Missing authorization header', 401);
-      return;
-    }
+    if (apiKey) {
+      if (permissions.length === 0) {
+        errorResponse(res, 'This endpoint requires a user session', 401);
+        return;
+      }
 
-    const parts = authHeader.split(' ');
-    if (parts.length !== 2 || parts[0] !== 'Bearer') {
-      errorResponse(
-        res,
-        'Invalid authorization header format. Expected: Bearer <token>',
-        401
-      );
-      return;
-    }
+      const scopes = await authenticateApiKey(req, res, apiKey);
+      if (!scopes) {
+        return;
+      }
+      granted = scopes;
+    } else {
+      const payload = await authenticateRequest(req, res);
+      if (!payload) {
+        return;
+      }
 
-    const token = parts[1];
-    const payload = verifyToken(token);
+      if (permissions.length === 0 && (!payload.role || payload.role === 'parent')) {
+        errorResponse(res, 'Insufficient permissions. Only users can access this resource.', 403);
+        return;
+      }
 
-    if (!payload) {
-      errorResponse(res, 'Invalid or expired token', 401);
-      return;
+      granted = payload.role ? await getRolePermissions(payload.role) : [];
+      req.user = payload;
     }
 
-    // Check if JTI is blacklisted
-    const isBlacklisted = await isJtiBlacklisted(payload.jti || '');
-    if (isBlacklisted) {
-      errorResponse(res, 'Token has been revoked. Please login again.', 401);
-      return;
-    }
+    const missing = permissions.filter((permission) => !granted.includes(permission));
 
-    // Only allow admin and operator roles
-    if (!payload.role || !['admin', 'operator'].includes(payload.role)) {
+    if (missing.length > 0) {
       errorResponse(
         res,
-        'Insufficient permissions. Only users can access this resource.',
-        403
+        'Insufficient permissions to access this resource.',
+        403,
+        { missing }
       );
       return;
     }
 
-    req.user = payload;
+    req.permissions = granted;
     next();
   } catch (error) {
     errorResponse(
@@ -79,9 +152,16 @@ export const authMiddleware = async (
   }
 };
 
+/**
+ * Authentication middleware - requires a valid token of a staff user
+ * account (admin, operator or mentor) without checking any permission
+ */
+export const authMiddleware = requirePermission();
+
 /**
  * Optional authentication middleware
- * Does not fail if token is missing or invalid
+ * Accepts a bearer token or an API key.
+ * Does not fail if either is missing or invalid
  */
 export const optionalAuthMiddleware = async (
   req: Request,
@@ -90,8 +170,15 @@ export const optionalAuthMiddleware = async (
 ): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
+    const apiKeyHeader = req.get('x-api-key');
 
-    if (authHeader) {
+    if (apiKeyHeader) {
+      const apiKey = await verifyApiKey(apiKeyHeader, req.ip);
+      if (apiKey) {
+        req.apiKey = { id: apiKey.id, name: apiKey.name };
+        req.permissions = getApiKeyScopes(apiKey);
+      }
+    } else if (authHeader) {
       const parts = authHeader.split(' ');
       if (parts.length === 2 && parts[0] === 'Bearer') {
         const payload = verifyToken(parts[1]);
@@ -100,6 +187,7 @@ export const optionalAuthMiddleware = async (
           const isBlacklisted = await isJtiBlacklisted(payload.jti || '');
           if (!isBlacklisted) {
             req.user = payload;
+            req.permissions = await getRolePermissions(payload.role);
           }
         }
       }
@@ -112,63 +200,7 @@ export const optionalAuthMiddleware = async (
 };
 
 /**
- * Require admin role middleware
+ * Check whether the authenticated request has a permission
  */
-export const requiredAdmin = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-): Promise<void> => {
-  try {
-    const authHeader = req.headers.authorization;
-
-    if (!authHeader) {
-      errorResponse(res, 'Missing authorization header', 401);
-      return;
-    }
-
-    const parts = authHeader.split(' ');
-    if (parts.length !== 2 || parts[0] !== 'Bearer') {
-      errorResponse(
-        res,
-        'Invalid authorization header format. Expected: Bearer <token>',
-        401
-      );
-      return;
-    }
-
-    const token = parts[1];
-    const payload = verifyToken(token);
-
-    if (!payload) {
-      errorResponse(res, 'Invalid or expired token', 401);
-      return;
-    }
-
-    // Check if JTI is blacklisted
-    const isBlacklisted = await isJtiBlacklisted(payload.jti || '');
-    if (isBlacklisted) {
-      errorResponse(res, 'Token has been revoked. Please login again.', 401);
-      return;
-    }
-
-    if (!payload.role || !['admin'].includes(payload.role)) {
-      errorResponse(
-        res,
-        'Insufficient permissions. Only admin can access this resource.',
-        403
-      );
-      return;
-    }
-
-    req.user = payload;
-    next();
-  } catch (error) {
-    errorResponse(
-      res,
-      'Authentication error',
-      500,
-      error instanceof Error ? error.message : String(error)
-    );
-  }
-};
+export const hasPermission = (req: Request, permission: Permission): boolean =>
+  req.permissions?.includes(permission) ?? false;
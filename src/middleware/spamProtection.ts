@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from 'express';
+import { createRateLimiter } from '../lib/rateLimit';
+import { verifyChallenge } from '../lib/challenge';
+import { getSessionContext } from '../lib/sessions';
+import { Permission } from '../lib/permissions';
+import { hasPermission } from './auth';
+import { errorResponse } from '../helper/apiResponse';
+import { PUBLIC_RATE_LIMIT_MAX, PUBLIC_RATE_LIMIT_WINDOW_MINUTES } from '../helper/env';
+
+// Hidden form field that people leave empty and bots tend to fill in
+export const HONEYPOT_FIELD = 'website';
+
+export const CHALLENGE_TOKEN_FIELD = 'challenge_token';
+
+export type SpamReason = 'honeypot' | 'challenge_failed';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set on public submissions; a non-empty list means quarantine
+      spamReasons?: SpamReason[];
+    }
+  }
+}
+
+// Staff who may write the records the public forms create; other
+// callers, such as parents, are treated as the public
+const STAFF_WRITE_PERMISSIONS: Permission[] = ['students:write', 'enrollments:write'];
+
+const publicSubmissionLimiter = createRateLimiter(
+  PUBLIC_RATE_LIMIT_MAX,
+  PUBLIC_RATE_LIMIT_WINDOW_MINUTES * 60 * 1000
+);
+
+/**
+ * Spam protection middleware for public write routes
+ * Use after optionalAuthMiddleware. Requests from staff or API keys with
+ * a student or enrollment write permission skip it. Other requests,
+ * including parents', are rate limited per IP address (429), then checked
+ * for a filled-in honeypot field and a valid challenge token, sent in the
+ * X-Challenge-Token header or the `challenge_token` field. Failed checks
+ * do not reject the request but are listed in `req.spamReasons`, so the
+ * route can quarantine the submission for review.
+ */
+export const protectPublicSubmission = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (STAFF_WRITE_PERMISSIONS.some((permission) => hasPermission(req, permission))) {
+    next();
+    return;
+  }
+
+  try {
+    const { ipAddress } = getSessionContext(req);
+
+    const limit = publicSubmissionLimiter.hit(ipAddress ?? 'unknown');
+    if (!limit.allowed) {
+      res.setHeader('Retry-After', String(limit.retryAfterSeconds));
+      errorResponse(
+        res,
+        'Too many submissions, please try again later',
+        429,
+        { retryAfterSeconds: limit.retryAfterSeconds }
+      );
+      return;
+    }
+
+    const body = req.body && typeof req.body === 'object' ? req.body : {};
+    const honeypot = body[HONEYPOT_FIELD];
+    const token = req.get('x-challenge-token') ?? body[CHALLENGE_TOKEN_FIELD];
+
+    // Keep the protection fields out of the stored submission
+    delete body[HONEYPOT_FIELD];
+    delete body[CHALLENGE_TOKEN_FIELD];
+
+    const reasons: SpamReason[] = [];
+    if (typeof honeypot === 'string' ? honeypot.trim() !== '' : honeypot != null) {
+      reasons.push('honeypot');
+    }
+    if (!(await verifyChallenge(typeof token === 'string' ? token : undefined, ipAddress))) {
+      reasons.push('challenge_failed');
+    }
+
+    req.spamReasons = reasons;
+    next();
+  } catch (error) {
+    errorResponse(
+      res,
+      'Spam protection error',
+      500,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+};
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { errorResponse } from '../helper/apiResponse';
+import { isSpreadsheetFile } from '../lib/spreadsheet';
+
+const MAX_SPREADSHEET_SIZE = 5 * 1024 * 1024;
+
+const spreadsheetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_SPREADSHEET_SIZE, files: 1 },
+}).single('file');
+
+/**
+ * Spreadsheet upload middleware
+ * Accepts a single CSV or XLSX file of up to 5 MB in the `file` field of a
+ * multipart/form-data request and keeps it in memory as `req.file`.
+ * Sends a 400 response if the file is missing, too large or of another type.
+ */
+export const uploadSpreadsheet = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  spreadsheetUpload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      errorResponse(
+        res,
+        error.code === 'LIMIT_FILE_SIZE' ? 'File is larger than 5 MB' : 'Invalid file upload',
+        400,
+        error.message
+      );
+      return;
+    }
+    if (error) {
+      next(error);
+      return;
+    }
+
+    if (!req.file) {
+      errorResponse(res, 'A CSV or XLSX file is required in the "file" field', 400);
+      return;
+    }
+    if (!isSpreadsheetFile(req.file.originalname)) {
+      errorResponse(res, 'Only CSV and XLSX files are supported', 400);
+      return;
+    }
+
+    next();
+  });
+};
@@ -2,7 +2,9 @@ import { Router, Request, Response } from 'express';
 import { createAnnouncementSchema, updateAnnouncementSchema } from '../validators/announcements';
 import { ZodError } from 'zod';
 import { prisma } from '../lib/prisma';
-import { authMiddleware } from '../middleware/auth';
+import { recordAudit } from '../lib/audit';
+import { moveToTrash } from '../lib/trash';
+import { requirePermission } from '../middleware/auth';
 import { paginatedResponse, errorResponse, successResponse } from '../helper/apiResponse';
 
 const router = Router();
@@ -98,16 +100,22 @@ router.get('/:id', async (req: Request, res: Response) => {
 /**
  * POST /
  * Creates a new announcement.
- * Requires authentication and validates request body using Zod.
+ * Requires the `announcements:write` permission and validates request body using Zod.
  * Returns the created announcement on success.
  * Handles validation errors (400) and server errors (500).
  */
-router.post('/', authMiddleware, async (req: Request, res: Response) => {
+router.post('/', requirePermission('announcements:write'), async (req: Request, res: Response) => {
   try {
     const body = createAnnouncementSchema.parse(req.body);
     const announcement = await prisma.announcements.create({
       data: body,
     });
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'announcement',
+      entityId: announcement.announcements_id,
+      after: announcement,
+    });
     return successResponse(
       res,
       announcement,
@@ -134,17 +142,30 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
 /**
  * PUT /:id
  * Updates an existing announcement by its unique ID.
- * Requires authentication and validates request body using Zod.
- * Returns the updated announcement on success.
+ * Requires the `announcements:write` permission and validates request body using Zod.
+ * Returns the updated announcement on success, or 404 if it does not exist.
  * Handles validation errors (400) and server errors (500).
  */
-router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
+router.put('/:id', requirePermission('announcements:write'), async (req: Request, res: Response) => {
   try {
     const body = updateAnnouncementSchema.parse(req.body);
+    const existing = await prisma.announcements.findUnique({
+      where: { announcements_id: req.params.id },
+    });
+    if (!existing) {
+      return errorResponse(res, "Announcement not found", 404);
+    }
     const announcement = await prisma.announcements.update({
       where: { announcements_id: req.params.id },
       data: body,
     });
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'announcement',
+      entityId: announcement.announcements_id,
+      before: existing,
+      after: announcement,
+    });
     return successResponse(
       res,
       announcement,
@@ -170,25 +191,30 @@ router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
 
 /**
  * DELETE /:id
- * Deletes an announcement by its unique ID.
- * Requires authentication.
- * Returns a success message on successful deletion.
- * Handles server errors gracefully.
+ * Moves an announcement to the trash.
+ * Requires the `announcements:write` permission.
+ * It can be restored through /api/trash until an admin purges it.
+ * Returns 404 if the announcement is not found.
  */
-router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('announcements:write'), async (req: Request, res: Response) => {
   try {
-    await prisma.announcements.delete({
-      where: { announcements_id: req.params.id },
+    const result = await moveToTrash('announcement', req.params.id);
+    if (result.status === 'not_found') {
+      return errorResponse(res, 'Announcement not found', 404);
+    }
+
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'announcement',
+      entityId: req.params.id,
+      before: result.record,
     });
-    return successResponse(
-      res,
-      null,
-      "Announcement deleted successfully"
-    );
+
+    return successResponse(res, null, 'Announcement moved to trash');
   } catch (error) {
     return errorResponse(
       res,
-      "Failed to delete announcement",
+      'Failed to delete announcement',
       500,
       error instanceof Error ? error.message : error
     );
@@ -0,0 +1,123 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { prisma } from '../lib/prisma';
+import { recordAudit } from '../lib/audit';
+import { apiKeySelect, createApiKey, revokeApiKey } from '../lib/apiKeys';
+import { API_KEY_SCOPES } from '../lib/permissions';
+import { requirePermission } from '../middleware/auth';
+import { successResponse, errorResponse } from '../helper/apiResponse';
+import { createApiKeySchema } from '../validators/apiKeys';
+
+const router = Router();
+
+/**
+ * GET /
+ * Fetches every API key ordered by newest first,
+ * together with the scopes that can be granted to keys.
+ * Requires the `users:manage` permission.
+ * Keys are identified by their prefix; the secret is never returned.
+ */
+router.get('/', requirePermission('users:manage'), async (_req: Request, res: Response) => {
+  try {
+    const apiKeys = await prisma.apiKey.findMany({
+      select: {
+        ...apiKeySelect,
+        createdBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return successResponse(
+      res,
+      { apiKeys, scopes: API_KEY_SCOPES },
+      'API keys fetched successfully'
+    );
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch API keys',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /
+ * Creates an API key for a machine client.
+ * Requires the `users:manage` permission and validates input using Zod.
+ * Returns the key metadata and the plaintext key, which is only shown once.
+ */
+router.post('/', requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const body = createApiKeySchema.parse(req.body);
+
+    const { apiKey, key } = await createApiKey({
+      name: body.name,
+      scopes: body.scopes,
+      expiresAt: body.expiresAt,
+      createdById: req.user?.id,
+    });
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'api_key',
+      entityId: apiKey.id,
+      after: apiKey,
+    });
+
+    return successResponse(
+      res,
+      { apiKey, key },
+      'API key created successfully. Store the key now, it will not be shown again.',
+      201
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to create API key',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * DELETE /:id
+ * Revokes an API key. Requests using it are rejected immediately.
+ * Requires the `users:manage` permission.
+ * Returns 404 if the key does not exist or is already revoked.
+ */
+router.delete('/:id', requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const revoked = await revokeApiKey(req.params.id);
+
+    if (!revoked) {
+      return errorResponse(res, 'API key not found', 404);
+    }
+
+    await recordAudit(req, {
+      action: 'revoke',
+      entityType: 'api_key',
+      entityId: req.params.id,
+    });
+
+    return successResponse(res, null, 'API key revoked successfully');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to revoke API key',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+export default router;
@@ -0,0 +1,71 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { prisma } from '../lib/prisma';
+import { requirePermission } from '../middleware/auth';
+import { errorResponse, paginatedResponse } from '../helper/apiResponse';
+import { listAuditLogsQuerySchema } from '../validators/audit';
+
+const router = Router();
+
+/**
+ * GET /
+ * Fetches a paginated list of audit log entries ordered by newest first.
+ * Requires the `audit:read` permission.
+ * Supports `page` and `limit` plus `actorId`, `action`, `entityType`,
+ * `entityId`, `from` and `to` filters.
+ * Handles validation and server errors.
+ */
+router.get('/', requirePermission('audit:read'), async (req: Request, res: Response) => {
+  try {
+    const query = listAuditLogsQuerySchema.parse(req.query);
+
+    const where = {
+      actorId: query.actorId,
+      action: query.action,
+      entityType: query.entityType,
+      entityId: query.entityId,
+      createdAt: {
+        gte: query.from,
+        lte: query.to,
+      },
+    };
+
+    const [totalItems, logs] = await Promise.all([
+      prisma.auditLog.count({ where }),
+      prisma.auditLog.findMany({
+        where,
+        include: {
+          actor: {
+            select: {
+              id: true,
+              name: true,
+              role: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+    ]);
+
+    return paginatedResponse(
+      res,
+      logs,
+      { page: query.page, limit: query.limit, totalItems },
+      'Audit logs fetched successfully'
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to fetch audit logs',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+export default router;
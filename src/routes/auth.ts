@@ -1,31 +1,204 @@
 import { Router, Request, Response } from 'express';
-import bcrypt from 'bcryptjs';
 import { ZodError } from 'zod';
-import { loginSchema, signupSchema } from '../validators/auth';
-import { generateToken, getTokenExpiration, getTokenJti } from '../lib/jwt';
-import { blacklistToken } from '../lib/tokenBlacklist';
+import { User } from '@prisma/client';
+import {
+  loginSchema,
+  signupSchema,
+  refreshTokenSchema,
+  logoutSchema,
+  inviteSchema,
+  acceptInviteSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  updateProfileSchema,
+  changePasswordSchema,
+  twoFactorChallengeSchema,
+  twoFactorLoginSchema,
+  twoFactorCodeSchema,
+  disableTwoFactorSchema,
+} from '../validators/auth';
+import {
+  getTokenExpiration,
+  getTokenJti,
+  generateChallengeToken,
+  verifyChallengeToken,
+  ChallengePurpose,
+} from '../lib/jwt';
+import { blacklistToken, revokeUserTokens } from '../lib/tokenBlacklist';
+import { createAuthToken, consumeAuthToken } from '../lib/authTokens';
+import { sendMessage } from '../lib/outbox';
+import { checkMentorLink } from '../lib/mentorLink';
+import {
+  checkLoginThrottle,
+  recordLoginAttempt,
+  registerLoginFailure,
+  registerLoginSuccess,
+  LoginAttemptContext,
+} from '../lib/loginThrottle';
+import {
+  isTwoFactorRequired,
+  beginTwoFactorSetup,
+  enableTwoFactor,
+  verifyTwoFactorCode,
+  generateRecoveryCodes,
+  countRecoveryCodes,
+  disableTwoFactor,
+} from '../lib/twoFactor';
+import {
+  rotateRefreshToken,
+  getRefreshTokenFamily,
+  revokeRefreshTokenFamily,
+} from '../lib/refreshToken';
+import {
+  startSession,
+  refreshSession,
+  listActiveSessions,
+  revokeSession,
+  getSessionContext,
+} from '../lib/sessions';
 import { prisma } from '../lib/prisma';
+import { recordAudit } from '../lib/audit';
+import { hashPassword, verifyPassword } from '../lib/password';
 import { successResponse, errorResponse } from '../helper/apiResponse';
-import { requiredAdmin, authMiddleware } from '../middleware/auth';
+import {
+  APP_URL,
+  INVITE_TOKEN_EXPIRY_HOURS,
+  PASSWORD_RESET_TOKEN_EXPIRY_MINUTES,
+} from '../helper/env';
+import { requirePermission, authMiddleware } from '../middleware/auth';
 
 const router = Router();
 
+/**
+ * Record a successful login, start a session and send the tokens
+ */
+const completeLogin = async (
+  res: Response,
+  user: User,
+  context: LoginAttemptContext,
+  extra: Record<string, unknown> = {}
+) => {
+  await registerLoginSuccess(user, context);
+
+  const tokens = await startSession(user, context);
+
+  return successResponse(
+    res,
+    {
+      ...tokens,
+      ...extra,
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+      },
+    },
+    'Login successful'
+  );
+};
+
+/**
+ * Resolve the user of a two-step login from its challenge token.
+ * Applies the same active-account and throttle checks as the password step.
+ * Sends an error response and returns null if the login cannot continue.
+ */
+const resolveChallengeUser = async (
+  req: Request,
+  res: Response,
+  challengeToken: string,
+  purpose: ChallengePurpose
+): Promise<{ user: User; context: LoginAttemptContext } | null> => {
+  const userId = verifyChallengeToken(challengeToken, purpose);
+  const user = userId
+    ? await prisma.user.findUnique({ where: { id: userId } })
+    : null;
+
+  if (!user) {
+    errorResponse(res, 'Invalid or expired challenge token. Please login again.', 401);
+    return null;
+  }
+
+  const context = { email: user.email, ...getSessionContext(req) };
+
+  if (!user.isActive) {
+    await recordLoginAttempt(context, {
+      success: false,
+      userId: user.id,
+      reason: 'inactive',
+    });
+    errorResponse(res, 'User account is inactive', 403);
+    return null;
+  }
+
+  const throttle = await checkLoginThrottle(user, context.ipAddress);
+
+  if (!throttle.allowed) {
+    await recordLoginAttempt(context, {
+      success: false,
+      userId: user.id,
+      reason: 'throttled',
+    });
+    res.setHeader('Retry-After', String(throttle.retryAfterSeconds));
+    errorResponse(
+      res,
+      'Too many login attempts. Please try again later.',
+      429,
+      { retryAfterSeconds: throttle.retryAfterSeconds }
+    );
+    return null;
+  }
+
+  return { user, context };
+};
+
 /**
  * POST /login
  * Authenticates a user using email and password.
- * Validates request body with Zod, checks user existence and active status,
- * verifies password using bcrypt, and generates a JWT on success.
- * Returns user info and token, or appropriate auth/validation errors.
+ * Validates request body with Zod, applies per-account and per-IP
+ * throttling (429 with Retry-After while locked out or backing off),
+ * checks user existence and active status, records the attempt,
+ * verifies password using bcrypt, and starts a session with a short-lived
+ * JWT and a rotating refresh token on success.
+ * Users with two-factor authentication get a short-lived challenge token
+ * for POST /login/2fa instead; admins who must enroll first get one for
+ * POST /login/2fa/setup.
+ * Returns user info and tokens, or appropriate auth/validation errors.
  */
 router.post('/login', async (req: Request, res: Response) => {
   try {
     const body = loginSchema.parse(req.body);
 
+    const context = { email: body.email, ...getSessionContext(req) };
+
     const user = await prisma.user.findFirst({
       where: { email: body.email },
     });
 
+    const throttle = await checkLoginThrottle(user, context.ipAddress);
+
+    if (!throttle.allowed) {
+      await recordLoginAttempt(context, {
+        success: false,
+        userId: user?.id,
+        reason: 'throttled',
+      });
+      res.setHeader('Retry-After', String(throttle.retryAfterSeconds));
+      return errorResponse(
+        res,
+        throttle.reason === 'account_locked'
+          ? 'Account is temporarily locked due to too many failed login attempts'
+          : 'Too many login attempts. Please try again later.',
+        429,
+        { retryAfterSeconds: throttle.retryAfterSeconds }
+      );
+    }
+
     if (!user) {
+      await recordLoginAttempt(context, {
+        success: false,
+        reason: 'unknown_user',
+      });
       return errorResponse(
         res,
         'Invalid email or password',
@@ -34,6 +207,11 @@ router.post('/login', async (req: Request, res: Response) => {
     }
 
     if (!user.isActive) {
+      await recordLoginAttempt(context, {
+        success: false,
+        userId: user.id,
+        reason: 'inactive',
+      });
       return errorResponse(
         res,
         'User account is inactive',
@@ -41,12 +219,11 @@ router.post('/login', async (req: Request, res: Response) => {
       );
     }
 
-    const isPasswordValid = await bcrypt.compare(
-      body.password,
-      user.password
-    );
+    // Invited users have no password until they accept the invitation
+    const isPasswordValid = await verifyPassword(body.password, user.password);
 
     if (!isPasswordValid) {
+      await registerLoginFailure(user, context, 'invalid_password');
       return errorResponse(
         res,
         'Invalid email or password',
@@ -54,24 +231,223 @@ router.post('/login', async (req: Request, res: Response) => {
       );
     }
 
-    const token = generateToken({
-      id: user.id,
-      email: user.email,
-      role: user.role,
+    // Second step: verify a TOTP code, or enroll first when 2FA is enforced
+    if (user.twoFactorEnabled) {
+      return successResponse(
+        res,
+        {
+          twoFactorRequired: true,
+          challengeToken: generateChallengeToken(user.id, '2fa_verify'),
+        },
+        'Two-factor authentication required'
+      );
+    }
+
+    if (isTwoFactorRequired(user)) {
+      return successResponse(
+        res,
+        {
+          twoFactorSetupRequired: true,
+          challengeToken: generateChallengeToken(user.id, '2fa_setup'),
+        },
+        'Two-factor authentication must be set up before logging in'
+      );
+    }
+
+    return completeLogin(res, user, context);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(
+        res,
+        'Validation failed',
+        400,
+        error.errors
+      );
+    }
+
+    console.error('Login error:', error);
+
+    return errorResponse(
+      res,
+      'Login failed',
+      500,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+});
+
+/**
+ * POST /login/2fa
+ * Completes a two-step login with a TOTP code or a recovery code.
+ * Validates input using Zod and requires the challenge token from POST /login.
+ * Invalid codes count as failed logins towards the account lockout.
+ * Returns user info and tokens like POST /login.
+ */
+router.post('/login/2fa', async (req: Request, res: Response) => {
+  try {
+    const body = twoFactorLoginSchema.parse(req.body);
+
+    const challenge = await resolveChallengeUser(req, res, body.challengeToken, '2fa_verify');
+    if (!challenge) {
+      return;
+    }
+    const { user, context } = challenge;
+
+    const method = await verifyTwoFactorCode(user, body.code);
+
+    if (!method) {
+      await registerLoginFailure(user, context, 'invalid_2fa_code');
+      return errorResponse(res, 'Invalid two-factor code', 401);
+    }
+
+    if (method === 'recovery_code') {
+      return completeLogin(res, user, context, {
+        recoveryCodesRemaining: await countRecoveryCodes(user.id),
+      });
+    }
+
+    return completeLogin(res, user, context);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Login failed',
+      500,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+});
+
+/**
+ * POST /login/2fa/setup
+ * Starts two-factor enrollment during login for users who must enroll.
+ * Requires the setup challenge token from POST /login.
+ * Returns the TOTP secret and its otpauth:// provisioning URI.
+ */
+router.post('/login/2fa/setup', async (req: Request, res: Response) => {
+  try {
+    const body = twoFactorChallengeSchema.parse(req.body);
+
+    const challenge = await resolveChallengeUser(req, res, body.challengeToken, '2fa_setup');
+    if (!challenge) {
+      return;
+    }
+
+    if (challenge.user.twoFactorEnabled) {
+      return errorResponse(res, 'Two-factor authentication is already enabled', 409);
+    }
+
+    const setup = await beginTwoFactorSetup(challenge.user);
+
+    return successResponse(res, setup, 'Two-factor setup started');
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to start two-factor setup',
+      500,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+});
+
+/**
+ * POST /login/2fa/enable
+ * Confirms enrollment with a TOTP code and completes the login.
+ * Requires the setup challenge token from POST /login.
+ * Returns user info and tokens together with the new recovery codes.
+ */
+router.post('/login/2fa/enable', async (req: Request, res: Response) => {
+  try {
+    const body = twoFactorLoginSchema.parse(req.body);
+
+    const challenge = await resolveChallengeUser(req, res, body.challengeToken, '2fa_setup');
+    if (!challenge) {
+      return;
+    }
+    const { user, context } = challenge;
+
+    const recoveryCodes = await enableTwoFactor(user, body.code);
+
+    if (!recoveryCodes) {
+      await registerLoginFailure(user, context, 'invalid_2fa_code');
+      return errorResponse(res, 'Invalid two-factor code', 400);
+    }
+
+    await recordAudit(req, {
+      action: 'enable_2fa',
+      entityType: 'user',
+      entityId: user.id,
+      actor: { id: user.id, email: user.email },
+    });
+
+    return completeLogin(res, user, context, { recoveryCodes });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Login failed',
+      500,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+});
+
+/**
+ * POST /refresh
+ * Exchanges a refresh token for a new access token and refresh token.
+ * The presented refresh token is rotated and can no longer be used;
+ * presenting an already-rotated token revokes its whole family.
+ * Returns new tokens, or 401 if the token is invalid, expired or reused.
+ */
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const body = refreshTokenSchema.parse(req.body);
+
+    const rotation = await rotateRefreshToken(body.refreshToken);
+
+    if (rotation.status === 'reused') {
+      await revokeSession({ familyId: rotation.familyId });
+      return errorResponse(
+        res,
+        'Refresh token has already been used. Please login again.',
+        401
+      );
+    }
+
+    if (rotation.status !== 'rotated') {
+      return errorResponse(res, 'Invalid or expired refresh token', 401);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: rotation.userId },
     });
 
+    if (!user || !user.isActive) {
+      await revokeSession({ familyId: rotation.familyId });
+      return errorResponse(res, 'User account is inactive', 403);
+    }
+
+    const token = await refreshSession(
+      user,
+      rotation.familyId,
+      rotation.expiresAt
+    );
+
     return successResponse(
       res,
       {
         token,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-        },
+        refreshToken: rotation.refreshToken,
+        refreshTokenExpiresAt: rotation.expiresAt,
       },
-      'Login successful'
+      'Token refreshed successfully'
     );
   } catch (error) {
     if (error instanceof ZodError) {
@@ -83,11 +459,11 @@ router.post('/login', async (req: Request, res: Response) => {
       );
     }
 
-    console.error('Login error:', error);
+    console.error('Refresh error:', error);
 
     return errorResponse(
       res,
-      'Login failed',
+      'Token refresh failed',
       500,
       error instanceof Error ? error.message : String(error)
     );
@@ -98,11 +474,15 @@ router.post('/login', async (req: Request, res: Response) => {
  * POST /logout
  * Logs out the authenticated user by invalidating the current JWT.
  * Extracts the token from the Authorization header, retrieves its JTI
- * and expiration, and adds it to a blacklist for audit and revocation.
+ * and revokes the matching session, which blacklists the JTI and revokes
+ * its refresh token family. Tokens without a registered session are
+ * added to the blacklist directly.
+ * When a refresh token is supplied, its whole family is revoked as well.
  * Returns a success message or handles server errors.
  */
 router.post('/logout', authMiddleware, async (req: Request, res: Response) => {
   try {
+    const body = logoutSchema.parse(req.body ?? {});
     const authHeader = req.headers.authorization;
     const userId = req.user?.id;
 
@@ -111,14 +491,34 @@ router.post('/logout', authMiddleware, async (req: Request, res: Response) => {
       const jti = getTokenJti(token);
       const expiration = getTokenExpiration(token);
 
-      if (jti && expiration) {
+      const sessionRevoked = jti
+        ? await revokeSession({ jti }, userId)
+        : false;
+
+      if (!sessionRevoked && jti && expiration) {
         // Add JTI to blacklist with user ID for audit trail
         await blacklistToken(jti, expiration, userId);
       }
     }
 
+    if (body.refreshToken && userId) {
+      const familyId = await getRefreshTokenFamily(body.refreshToken, userId);
+      if (familyId) {
+        await revokeRefreshTokenFamily(familyId);
+      }
+    }
+
     return successResponse(res, null, 'Logout successful');
   } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(
+        res,
+        'Validation failed',
+        400,
+        error.errors
+      );
+    }
+
     console.error('Logout error:', error);
     return errorResponse(
       res,
@@ -130,42 +530,722 @@ router.post('/logout', authMiddleware, async (req: Request, res: Response) => {
 });
 
 /**
- * POST /signup
- * Creates a new user account.
- * Restricted to admin users and validates input using Zod.
- * Hashes the password before persisting the user.
- * Returns the created user’s public details or appropriate errors.
+ * GET /sessions
+ * Lists the active sessions of the authenticated user.
+ * Each session exposes its current JTI, client IP, user agent and
+ * issue/expiry timestamps. The caller's own session is flagged.
  */
-router.post('/signup', requiredAdmin, async (req, res) => {
+router.get('/sessions', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const body = signupSchema.parse(req.body);
-    const hashedPassword = await bcrypt.hash(body.password, 10);
-    const user = await prisma.user.create({
-      data: {
-        email: body.email,
-        name: body.name,
-        password: hashedPassword
-      }
-    });
+    const sessions = await listActiveSessions(req.user!.id);
+
     return successResponse(
       res,
-      {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      },
-      "User created successfully"
+      sessions.map((session) => ({
+        ...session,
+        current: session.jti === req.user?.jti,
+      })),
+      'Sessions fetched successfully'
+    );
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch sessions',
+      500,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+});
+
+/**
+ * DELETE /sessions/:jti
+ * Revokes one of the authenticated user's sessions by its JTI.
+ * Blacklists the session's access token and revokes its refresh tokens.
+ * Returns 404 if the session does not exist or is already revoked.
+ */
+router.delete('/sessions/:jti', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const revoked = await revokeSession({ jti: req.params.jti }, req.user!.id);
+
+    if (!revoked) {
+      return errorResponse(res, 'Session not found', 404);
+    }
+
+    return successResponse(res, null, 'Session revoked successfully');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to revoke session',
+      500,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+});
+
+const profileSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  isActive: true,
+  mentorId: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * GET /me
+ * Fetches the profile of the authenticated user.
+ * Returns selected public user fields, or 404 if the account no longer exists.
+ */
+router.get('/me', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: profileSelect,
+    });
+
+    if (!user) {
+      return errorResponse(res, 'User not found', 404);
+    }
+
+    return successResponse(res, user, 'Profile fetched successfully');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch profile',
+      500,
+      error instanceof Error ? error.message : error
     );
+  }
+});
+
+/**
+ * PUT /me
+ * Updates the name or email of the authenticated user.
+ * Validates input using Zod. Role, status and password cannot be changed here.
+ * Returns the updated profile, or 409 if the email is taken by another user.
+ */
+router.put('/me', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const body = updateProfileSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: profileSelect,
+    });
+
+    if (!user) {
+      return errorResponse(res, 'User not found', 404);
+    }
+
+    if (body.email) {
+      const existing = await prisma.user.findUnique({
+        where: { email: body.email },
+        select: { id: true },
+      });
+      if (existing && existing.id !== user.id) {
+        return errorResponse(res, 'Email is already registered', 409);
+      }
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: body,
+      select: profileSelect,
+    });
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'user',
+      entityId: user.id,
+      before: user,
+      after: updated,
+    });
+
+    return successResponse(res, updated, 'Profile updated successfully');
   } catch (error) {
     if (error instanceof ZodError) {
-      return errorResponse(
-        res, "validation failed", 400, error.errors
-      );
+      return errorResponse(res, 'Validation failed', 400, error.errors);
     }
     return errorResponse(
       res,
-      "Failed to create user",
+      'Failed to update profile',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /me/password
+ * Changes the password of the authenticated user.
+ * Requires the current password and enforces the password policy.
+ * Every other session of the user is revoked; the current one stays active.
+ * Returns 400 if the current password is wrong.
+ */
+router.post('/me/password', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const body = changePasswordSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { id: true, password: true },
+    });
+
+    if (!user) {
+      return errorResponse(res, 'User not found', 404);
+    }
+
+    const isPasswordValid = await verifyPassword(body.currentPassword, user.password);
+    if (!isPasswordValid) {
+      return errorResponse(res, 'Current password is incorrect', 400);
+    }
+
+    const hashedPassword = await hashPassword(body.newPassword);
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { password: hashedPassword },
+    });
+    const revokedSessions = await revokeUserTokens(user.id, {
+      exceptJti: req.user!.jti,
+    });
+    await recordAudit(req, {
+      action: 'change_password',
+      entityType: 'user',
+      entityId: user.id,
+    });
+
+    return successResponse(
+      res,
+      { revokedSessions },
+      'Password changed successfully'
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to change password',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * GET /2fa
+ * Fetches the two-factor status of the authenticated user.
+ * Returns whether 2FA is enabled or required and the unused recovery codes left.
+ */
+router.get('/2fa', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: {
+        id: true,
+        role: true,
+        twoFactorEnabled: true,
+        twoFactorConfirmedAt: true,
+      },
+    });
+
+    if (!user) {
+      return errorResponse(res, 'User not found', 404);
+    }
+
+    return successResponse(
+      res,
+      {
+        enabled: user.twoFactorEnabled,
+        required: isTwoFactorRequired(user),
+        confirmedAt: user.twoFactorConfirmedAt,
+        recoveryCodesRemaining: user.twoFactorEnabled
+          ? await countRecoveryCodes(user.id)
+          : 0,
+      },
+      'Two-factor status fetched successfully'
+    );
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch two-factor status',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /2fa/setup
+ * Starts two-factor enrollment for the authenticated user.
+ * Replaces any pending, unconfirmed secret.
+ * Returns the TOTP secret and its otpauth:// provisioning URI,
+ * or 409 if 2FA is already enabled.
+ */
+router.post('/2fa/setup', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+    });
+
+    if (!user) {
+      return errorResponse(res, 'User not found', 404);
+    }
+
+    if (user.twoFactorEnabled) {
+      return errorResponse(res, 'Two-factor authentication is already enabled', 409);
+    }
+
+    const setup = await beginTwoFactorSetup(user);
+
+    return successResponse(res, setup, 'Two-factor setup started');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to start two-factor setup',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /2fa/enable
+ * Confirms two-factor enrollment with a code from the authenticator app.
+ * Validates input using Zod.
+ * Returns the recovery codes, which are only shown once,
+ * or 400 if there is no pending setup or the code is invalid.
+ */
+router.post('/2fa/enable', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const body = twoFactorCodeSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+    });
+
+    if (!user) {
+      return errorResponse(res, 'User not found', 404);
+    }
+
+    if (user.twoFactorEnabled) {
+      return errorResponse(res, 'Two-factor authentication is already enabled', 409);
+    }
+
+    const recoveryCodes = await enableTwoFactor(user, body.code);
+
+    if (!recoveryCodes) {
+      return errorResponse(res, 'Invalid two-factor code', 400);
+    }
+    await recordAudit(req, {
+      action: 'enable_2fa',
+      entityType: 'user',
+      entityId: user.id,
+    });
+
+    return successResponse(
+      res,
+      { recoveryCodes },
+      'Two-factor authentication enabled'
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to enable two-factor authentication',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /2fa/disable
+ * Turns off two-factor authentication for the authenticated user.
+ * Requires the current password and a valid TOTP or recovery code.
+ * Returns 403 if the user's role must use two-factor authentication.
+ */
+router.post('/2fa/disable', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const body = disableTwoFactorSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+    });
+
+    if (!user) {
+      return errorResponse(res, 'User not found', 404);
+    }
+
+    if (!user.twoFactorEnabled) {
+      return errorResponse(res, 'Two-factor authentication is not enabled', 400);
+    }
+
+    if (isTwoFactorRequired(user)) {
+      return errorResponse(res, 'Two-factor authentication is required for this account', 403);
+    }
+
+    const isPasswordValid = await verifyPassword(body.password, user.password);
+    if (!isPasswordValid || !(await verifyTwoFactorCode(user, body.code))) {
+      return errorResponse(res, 'Invalid password or two-factor code', 400);
+    }
+
+    await disableTwoFactor(user.id);
+    await recordAudit(req, {
+      action: 'disable_2fa',
+      entityType: 'user',
+      entityId: user.id,
+    });
+
+    return successResponse(res, null, 'Two-factor authentication disabled');
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to disable two-factor authentication',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /2fa/recovery-codes
+ * Regenerates the recovery codes of the authenticated user.
+ * Requires a valid TOTP or recovery code. Previous recovery codes stop working.
+ * Returns the new recovery codes, which are only shown once.
+ */
+router.post('/2fa/recovery-codes', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const body = twoFactorCodeSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+    });
+
+    if (!user) {
+      return errorResponse(res, 'User not found', 404);
+    }
+
+    if (!user.twoFactorEnabled) {
+      return errorResponse(res, 'Two-factor authentication is not enabled', 400);
+    }
+
+    if (!(await verifyTwoFactorCode(user, body.code))) {
+      return errorResponse(res, 'Invalid two-factor code', 400);
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+    await recordAudit(req, {
+      action: 'regenerate_recovery_codes',
+      entityType: 'user',
+      entityId: user.id,
+    });
+
+    return successResponse(
+      res,
+      { recoveryCodes },
+      'Recovery codes regenerated successfully'
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to regenerate recovery codes',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /signup
+ * Creates a new user account.
+ * Requires the `users:manage` permission and validates input using Zod.
+ * Hashes the password before persisting the user.
+ * Returns the created user’s public details or appropriate errors.
+ */
+router.post('/signup', requirePermission('users:manage'), async (req, res) => {
+  try {
+    const body = signupSchema.parse(req.body);
+    const hashedPassword = await hashPassword(body.password);
+    const user = await prisma.user.create({
+      data: {
+        email: body.email,
+        name: body.name,
+        password: hashedPassword
+      }
+    });
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'user',
+      entityId: user.id,
+      after: user,
+    });
+    return successResponse(
+      res,
+      {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+      },
+      "User created successfully"
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(
+        res, "validation failed", 400, error.errors
+      );
+    }
+    return errorResponse(
+      res,
+      "Failed to create user",
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /invite
+ * Invites a new staff member.
+ * Requires the `users:manage` permission and validates input using Zod.
+ * Mentor invitations must reference the Mentors record to link.
+ * Creates a pending user without a password, issues a single-use invite
+ * token and sends the invite link through the outbox.
+ * Inviting a pending user again re-issues the invitation.
+ * Returns the pending user and invite link, or 409 if the email is taken.
+ */
+router.post('/invite', requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const body = inviteSchema.parse(req.body);
+
+    const existing = await prisma.user.findUnique({
+      where: { email: body.email },
+    });
+
+    if (existing?.password) {
+      return errorResponse(res, 'Email is already registered', 409);
+    }
+
+    const mentorId = body.role === 'mentor' ? body.mentorId : undefined;
+
+    if (mentorId) {
+      const link = await checkMentorLink(mentorId, existing?.id);
+      if (!link.ok) {
+        return errorResponse(res, link.message, link.status);
+      }
+    }
+
+    const user = existing
+      ? await prisma.user.update({
+        where: { id: existing.id },
+        data: { name: body.name, role: body.role, mentorId: mentorId ?? null },
+      })
+      : await prisma.user.create({
+        data: {
+          email: body.email,
+          name: body.name,
+          role: body.role,
+          mentorId,
+        },
+      });
+
+    const { token, expiresAt } = await createAuthToken(
+      user.id,
+      'invite',
+      INVITE_TOKEN_EXPIRY_HOURS * 60 * 60 * 1000
+    );
+    const inviteUrl = `${APP_URL}/accept-invite?token=${encodeURIComponent(token)}`;
+    await recordAudit(req, {
+      action: 'invite',
+      entityType: 'user',
+      entityId: user.id,
+      before: existing,
+      after: user,
+    });
+
+    await sendMessage({
+      channel: 'email',
+      to: user.email,
+      subject: 'You have been invited to Kitapandu',
+      body:
+        `Hello ${user.name},\n\n` +
+        `You have been invited to join Kitapandu as ${user.role}.\n` +
+        `Set your password using the link below before ${expiresAt.toISOString()}:\n\n` +
+        `${inviteUrl}\n`,
+    });
+
+    return successResponse(
+      res,
+      {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+        },
+        inviteUrl,
+        expiresAt,
+      },
+      'Invitation sent successfully',
+      201
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to send invitation',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /accept-invite
+ * Accepts an invitation by setting the user's password.
+ * Consumes the single-use invite token and hashes the new password.
+ * Returns 400 if the token is invalid, expired or already used.
+ */
+router.post('/accept-invite', async (req: Request, res: Response) => {
+  try {
+    const body = acceptInviteSchema.parse(req.body);
+
+    const userId = await consumeAuthToken(body.token, 'invite');
+
+    if (!userId) {
+      return errorResponse(res, 'Invalid or expired invitation', 400);
+    }
+
+    const hashedPassword = await hashPassword(body.password);
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { password: hashedPassword },
+    });
+    await recordAudit(req, {
+      action: 'accept_invite',
+      entityType: 'user',
+      entityId: user.id,
+      actor: { id: user.id, email: user.email },
+    });
+
+    return successResponse(res, null, 'Invitation accepted. You can now login.');
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to accept invitation',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /forgot-password
+ * Starts a password reset for the given email.
+ * Issues a single-use reset token for active users with a password
+ * and sends the reset link through the outbox.
+ * Always responds with the same message so emails cannot be enumerated.
+ */
+router.post('/forgot-password', async (req: Request, res: Response) => {
+  try {
+    const body = forgotPasswordSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { email: body.email },
+    });
+
+    if (user && user.isActive && user.password) {
+      const { token, expiresAt } = await createAuthToken(
+        user.id,
+        'password_reset',
+        PASSWORD_RESET_TOKEN_EXPIRY_MINUTES * 60 * 1000
+      );
+      const resetUrl = `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+      await sendMessage({
+        channel: 'email',
+        to: user.email,
+        subject: 'Reset your Kitapandu password',
+        body:
+          `Hello ${user.name},\n\n` +
+          `We received a request to reset your password.\n` +
+          `Use the link below before ${expiresAt.toISOString()}:\n\n` +
+          `${resetUrl}\n\n` +
+          `If you did not request this, you can ignore this message.\n`,
+      });
+    }
+
+    return successResponse(
+      res,
+      null,
+      'If the email is registered, a reset link has been sent'
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to request password reset',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /reset-password
+ * Sets a new password using a password reset token.
+ * Consumes the single-use token, hashes the new password and revokes
+ * every live session of the user.
+ * Returns 400 if the token is invalid, expired or already used.
+ */
+router.post('/reset-password', async (req: Request, res: Response) => {
+  try {
+    const body = resetPasswordSchema.parse(req.body);
+
+    const userId = await consumeAuthToken(body.token, 'password_reset');
+
+    if (!userId) {
+      return errorResponse(res, 'Invalid or expired reset token', 400);
+    }
+
+    const hashedPassword = await hashPassword(body.password);
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { password: hashedPassword },
+    });
+    await revokeUserTokens(userId);
+    await recordAudit(req, {
+      action: 'reset_password',
+      entityType: 'user',
+      entityId: user.id,
+      actor: { id: user.id, email: user.email },
+    });
+
+    return successResponse(res, null, 'Password reset successfully');
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to reset password',
       500,
       error instanceof Error ? error.message : error
     );
@@ -1,8 +1,15 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../lib/prisma';
-import { authMiddleware } from '../middleware/auth';
+import { recordAudit } from '../lib/audit';
+import { countTakenSeats, promoteFromWaitlist, statusActorOf } from '../lib/enrollments';
+import { eligibilityDate, maxAgeOf } from '../lib/eligibility';
+import { moveToTrash } from '../lib/trash';
+import { requirePermission } from '../middleware/auth';
 import { successResponse, errorResponse, paginatedResponse } from '../helper/apiResponse';
-import { createClassSchema, updateClassSchema } from '../validators/classes';
+import { createClassSchema, updateClassSchema, eligibleStudentsQuerySchema } from '../validators/classes';
+import { birthDateRangeForAge, calculateAge } from '../helper/age';
+import { exportQuerySchema } from '../validators/exports';
+import { streamExport, exportBatchArgs } from '../lib/export';
 import { ZodError } from 'zod';
 
 const router = Router();
@@ -48,6 +55,59 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /export
+ * Exports all classes as a CSV or XLSX file (`format`), newest first.
+ * Requires the `data:export` permission.
+ */
+router.get('/export', requirePermission('data:export'), async (req: Request, res: Response) => {
+  try {
+    const { format } = exportQuerySchema.parse(req.query);
+
+    await streamExport(res, {
+      format,
+      fileName: 'classes',
+      fetchBatch: (cursor) =>
+        prisma.classes.findMany({
+          include: {
+            program: { select: { name: true } },
+            mentor: { select: { name: true } },
+            _count: { select: { enrollments: true } },
+          },
+          orderBy: [
+            { created_at: 'desc' },
+            { class_id: 'asc' },
+          ],
+          ...exportBatchArgs('class_id', cursor),
+        }),
+      cursorOf: (cls) => cls.class_id,
+      columns: [
+        { header: 'Class ID', value: (cls) => cls.class_id, width: 38 },
+        { header: 'Name', value: (cls) => cls.name, width: 30 },
+        { header: 'Program', value: (cls) => cls.program.name, width: 30 },
+        { header: 'Mentor', value: (cls) => cls.mentor.name, width: 30 },
+        { header: 'Status', value: (cls) => cls.status },
+        { header: 'Min Age', value: (cls) => cls.min_age },
+        { header: 'Max Age', value: (cls) => cls.max_age },
+        { header: 'Capacity', value: (cls) => cls.capacity },
+        { header: 'Enrollments', value: (cls) => cls._count.enrollments },
+        { header: 'Started At', value: (cls) => cls.started_at },
+        { header: 'Ended At', value: (cls) => cls.ended_at },
+      ],
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to export classes',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
 /**
  * GET /:id
  * Fetches a single class by its unique ID.
@@ -73,17 +133,136 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+/**
+ * GET /:id/waitlist
+ * Fetches the waitlist of a class in order, with the seats taken out of
+ * its capacity (null capacity means unlimited).
+ * Requires the `enrollments:read` permission.
+ * Returns 404 if the class is not found.
+ */
+router.get('/:id/waitlist', requirePermission('enrollments:read'), async (req, res) => {
+  try {
+    const cls = await prisma.classes.findUnique({
+      where: { class_id: req.params.id },
+      select: { class_id: true, name: true, capacity: true },
+    });
+    if (!cls) {
+      return errorResponse(res, 'Class not found', 404);
+    }
+
+    const [takenSeats, waitlist] = await Promise.all([
+      countTakenSeats(prisma, cls.class_id),
+      prisma.enrollments.findMany({
+        where: { class_id: cls.class_id, status: 'waitlisted' },
+        include: {
+          student: {
+            select: {
+              student_id: true,
+              student_name: true,
+            },
+          },
+        },
+        orderBy: { waitlist_position: 'asc' },
+      }),
+    ]);
+
+    return successResponse(
+      res,
+      { ...cls, taken_seats: takenSeats, waitlist },
+      'Waitlist fetched successfully'
+    );
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch waitlist',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * GET /:id/eligible-students
+ * Fetches a paginated list of students within the age range of a class
+ * who are not enrolled in it yet, ordered by name. Ages are taken on the
+ * class start date, or today for a class that has already started.
+ * Requires the `students:read` permission.
+ * Supports `page`, `limit` and a `search` on the student name.
+ * Returns 404 if the class is not found.
+ */
+router.get('/:id/eligible-students', requirePermission('students:read'), async (req, res) => {
+  try {
+    const query = eligibleStudentsQuerySchema.parse(req.query);
+    const cls = await prisma.classes.findUnique({
+      where: { class_id: req.params.id },
+      select: { class_id: true, min_age: true, max_age: true, started_at: true },
+    });
+    if (!cls) {
+      return errorResponse(res, 'Class not found', 404);
+    }
+
+    const asOf = eligibilityDate(cls);
+    const where = {
+      date_of_birth: birthDateRangeForAge(cls.min_age, maxAgeOf(cls), asOf),
+      student_name: query.search ? { contains: query.search } : undefined,
+      enrollments: { none: { class_id: cls.class_id } },
+    };
+
+    const [totalItems, students] = await Promise.all([
+      prisma.students.count({ where }),
+      prisma.students.findMany({
+        where,
+        select: {
+          student_id: true,
+          student_name: true,
+          date_of_birth: true,
+          date_of_birth_estimated: true,
+        },
+        orderBy: [{ student_name: 'asc' }, { student_id: 'asc' }],
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+    ]);
+
+    return paginatedResponse(
+      res,
+      students.map((student) => ({
+        ...student,
+        age: calculateAge(student.date_of_birth, asOf),
+      })),
+      { page: query.page, limit: query.limit, totalItems },
+      'Eligible students fetched successfully'
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to fetch eligible students',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
 /**
  * POST /
  * Creates a new class.
- * Requires authentication and validates request body using Zod.
+ * Requires the `classes:write` permission and validates request body using Zod.
  * Returns the created class with a 201 status code on success.
  * Handles validation and server errors.
  */
-router.post('/', authMiddleware, async (req, res) => {
+router.post('/', requirePermission('classes:write'), async (req, res) => {
   try {
     const data = createClassSchema.parse(req.body);
     const cls = await prisma.classes.create({ data });
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'class',
+      entityId: cls.class_id,
+      after: cls,
+    });
     return successResponse(res, cls, 'Class created', 201);
   } catch (error) {
     if (error instanceof ZodError) {
@@ -101,17 +280,45 @@ router.post('/', authMiddleware, async (req, res) => {
 /**
  * PUT /:id
  * Updates an existing class by its unique ID.
- * Requires authentication and validates request body using Zod.
- * Returns the updated class on success.
+ * Requires the `classes:write` permission and validates request body using Zod.
+ * Raising or removing the capacity confirms waitlisted students into the
+ * new seats; lowering it does not remove anyone who already has a seat.
+ * Returns the updated class on success, or 404 if it does not exist.
  * Handles validation and server errors.
  */
-router.put('/:id', authMiddleware, async (req, res) => {
+router.put('/:id', requirePermission('classes:write'), async (req, res) => {
   try {
     const data = updateClassSchema.parse(req.body);
+    const existing = await prisma.classes.findUnique({
+      where: { class_id: req.params.id },
+    });
+    if (!existing) {
+      return errorResponse(res, 'Class not found', 404);
+    }
     const cls = await prisma.classes.update({
       where: { class_id: req.params.id },
       data,
     });
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'class',
+      entityId: cls.class_id,
+      before: existing,
+      after: cls,
+    });
+
+    if (cls.capacity !== existing.capacity) {
+      const promoted = await promoteFromWaitlist(cls.class_id, statusActorOf(req));
+      for (const enrollment of promoted) {
+        await recordAudit(req, {
+          action: 'waitlist_promote',
+          entityType: 'enrollment',
+          entityId: enrollment.enrollment_id,
+          after: enrollment,
+        });
+      }
+    }
+
     return successResponse(res, cls, 'Class updated');
   } catch (error) {
     if (error instanceof ZodError) {
@@ -128,22 +335,41 @@ router.put('/:id', authMiddleware, async (req, res) => {
 
 /**
  * DELETE /:id
- * Deletes a class by its unique ID.
- * Requires authentication.
- * Returns a success message on successful deletion.
- * Handles server errors gracefully.
+ * Moves a class to the trash along with its enrollments and schedules.
+ * Requires the `classes:write` permission.
+ * It can be restored through /api/trash until an admin purges it.
+ * Returns 404 if the class is not found.
  */
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', requirePermission('classes:write'), async (req, res) => {
   try {
-    await prisma.classes.delete({ where: { class_id: req.params.id } });
-    return successResponse(res, null, 'Class deleted');
+    const result = await moveToTrash('class', req.params.id, statusActorOf(req));
+    if (result.status === 'not_found') {
+      return errorResponse(res, 'Class not found', 404);
+    }
+
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'class',
+      entityId: req.params.id,
+      before: result.record,
+    });
+    for (const promoted of result.promoted) {
+      await recordAudit(req, {
+        action: 'waitlist_promote',
+        entityType: 'enrollment',
+        entityId: promoted.enrollment_id,
+        after: promoted,
+      });
+    }
+
+    return successResponse(res, null, 'Class moved to trash');
   } catch (error) {
     return errorResponse(
       res,
-      "Failed to fetch allocations",
+      'Failed to delete class',
       500,
       error instanceof Error ? error.message : error
-    )
+    );
   }
 });
 
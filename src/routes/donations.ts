@@ -5,13 +5,17 @@ import {
 } from '../validators/donations';
 import { ZodError } from 'zod';
 import { prisma } from '../lib/prisma';
+import { recordAudit } from '../lib/audit';
+import { moveToTrash } from '../lib/trash';
 import {
   errorResponse,
   paginatedResponse,
   successResponse,
 } from '../helper/apiResponse';
-import { authMiddleware } from '../middleware/auth';
+import { requirePermission } from '../middleware/auth';
 import { createDonationAllocationsSchema, updateDonationAllocationSchema } from '../validators/donationAllocation';
+import { exportQuerySchema } from '../validators/exports';
+import { streamExport, exportBatchArgs } from '../lib/export';
 
 
 const router = Router();
@@ -58,6 +62,62 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /export
+ * Exports all donations as a CSV or XLSX file (`format`), newest first.
+ * Requires the `data:export` permission.
+ */
+router.get('/export', requirePermission('data:export'), async (req: Request, res: Response) => {
+  try {
+    const { format } = exportQuerySchema.parse(req.query);
+
+    await streamExport(res, {
+      format,
+      fileName: 'donations',
+      fetchBatch: (cursor) =>
+        prisma.donation.findMany({
+          include: {
+            _count: { select: { allocations: true } },
+          },
+          orderBy: [
+            { created_at: 'desc' },
+            { donation_id: 'asc' },
+          ],
+          ...exportBatchArgs('donation_id', cursor),
+        }),
+      cursorOf: (donation) => donation.donation_id,
+      columns: [
+        { header: 'Donation ID', value: (donation) => donation.donation_id, width: 38 },
+        { header: 'Title', value: (donation) => donation.title, width: 40 },
+        { header: 'Status', value: (donation) => donation.status },
+        { header: 'Target Amount', value: (donation) => donation.target_amount },
+        { header: 'Collected Amount', value: (donation) => donation.collected_amount },
+        { header: 'Percent', value: (donation) => donation.percent },
+        { header: 'Donors', value: (donation) => donation.jumlah_donatur },
+        { header: 'Allocations', value: (donation) => donation._count.allocations },
+        {
+          header: 'Start Date',
+          value: (donation) => donation.start_date.toISOString().slice(0, 10),
+        },
+        {
+          header: 'End Date',
+          value: (donation) => donation.end_date.toISOString().slice(0, 10),
+        },
+      ],
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to export donations',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
 /**
  * GET /:id
  * Fetches a single donation by its unique ID.
@@ -91,13 +151,13 @@ router.get('/:id', async (req: Request, res: Response) => {
 /**
  * POST /
  * Creates a new donation record.
- * Requires authentication and validates input using Zod.
+ * Requires the `donations:write` permission and validates input using Zod.
  * Initializes collected amount and progress percentage to zero.
  * Returns the created donation with related allocations on success.
  * Handles validation and server errors.
  */
 
-router.post('/', authMiddleware, async (req: Request, res: Response) => {
+router.post('/', requirePermission('donations:write'), async (req: Request, res: Response) => {
   try {
     const body = createDonationSchema.parse(req.body);
 
@@ -109,6 +169,12 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
       },
       include: { allocations: true },
     });
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'donation',
+      entityId: donation.donation_id,
+      after: donation,
+    });
 
     return successResponse(
       res,
@@ -133,19 +199,33 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
 /**
  * PUT /:id
  * Updates an existing donation by its unique ID.
- * Requires authentication and validates request body using Zod.
- * Returns the updated donation with related allocations on success.
+ * Requires the `donations:write` permission and validates request body using Zod.
+ * Returns the updated donation with related allocations on success,
+ * or 404 if it does not exist.
  * Handles validation and server errors.
  */
 
-router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
+router.put('/:id', requirePermission('donations:write'), async (req: Request, res: Response) => {
   try {
     const body = updateDonationSchema.parse(req.body);
+    const existing = await prisma.donation.findUnique({
+      where: { donation_id: req.params.id },
+    });
+    if (!existing) {
+      return errorResponse(res, 'Donation not found', 404);
+    }
     const donation = await prisma.donation.update({
       where: { donation_id: req.params.id },
       data: body,
       include: { allocations: true },
     });
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'donation',
+      entityId: donation.donation_id,
+      before: existing,
+      after: { ...donation, allocations: undefined },
+    });
 
     return successResponse(
       res,
@@ -168,22 +248,26 @@ router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
 
 /**
  * DELETE /:id
- * Deletes a donation by its unique ID.
- * Requires authentication.
- * Returns a success message on successful deletion.
- * Handles server errors gracefully.
+ * Moves a donation to the trash along with its allocations.
+ * Requires the `donations:write` permission.
+ * It can be restored through /api/trash until an admin purges it.
+ * Returns 404 if the donation is not found.
  */
-router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('donations:write'), async (req: Request, res: Response) => {
   try {
-    await prisma.donation.delete({
-      where: { donation_id: req.params.id },
+    const result = await moveToTrash('donation', req.params.id);
+    if (result.status === 'not_found') {
+      return errorResponse(res, 'Donation not found', 404);
+    }
+
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'donation',
+      entityId: req.params.id,
+      before: result.record,
     });
 
-    return successResponse(
-      res,
-      null,
-      'Donation deleted successfully'
-    );
+    return successResponse(res, null, 'Donation moved to trash');
   } catch (error) {
     return errorResponse(
       res,
@@ -195,14 +279,67 @@ router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
 });
 
 
+/**
+ * GET /:id/allocations/export
+ * Exports the allocations of a donation as a CSV or XLSX file (`format`),
+ * newest first.
+ * Requires the `donations:read` and `data:export` permissions.
+ * Returns 404 if the donation is not found.
+ */
+router.get('/:id/allocations/export', requirePermission('donations:read', 'data:export'), async (req: Request, res: Response) => {
+  try {
+    const { format } = exportQuerySchema.parse(req.query);
+
+    const donation = await prisma.donation.findUnique({
+      where: { donation_id: req.params.id },
+    });
+    if (!donation) {
+      return errorResponse(res, 'Donation not found', 404);
+    }
+
+    await streamExport(res, {
+      format,
+      fileName: 'allocations',
+      fetchBatch: (cursor) =>
+        prisma.donationAllocation.findMany({
+          where: { donation_id: donation.donation_id },
+          orderBy: [
+            { created_at: 'desc' },
+            { donation_allocation_id: 'asc' },
+          ],
+          ...exportBatchArgs('donation_allocation_id', cursor),
+        }),
+      cursorOf: (allocation) => allocation.donation_allocation_id,
+      columns: [
+        { header: 'Allocation ID', value: (allocation) => allocation.donation_allocation_id, width: 38 },
+        { header: 'Donation', value: () => donation.title, width: 40 },
+        { header: 'Title', value: (allocation) => allocation.title, width: 40 },
+        { header: 'Amount', value: (allocation) => allocation.amount },
+        { header: 'Percent', value: (allocation) => allocation.percent },
+        { header: 'Created At', value: (allocation) => allocation.created_at },
+      ],
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to export allocations',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
 /**
  * GET /:id/allocations
  * Fetches a paginated list of allocations for the specified donation ID.
- * Requires authentication and supports `page` and `limit` query parameters.
+ * Requires the `donations:read` permission and supports `page` and `limit` query parameters.
  * Returns 404 if no allocations exist for the given donation.
  * Handles server errors gracefully.
  */
-router.get('/:id/allocations', authMiddleware, async (req: Request, res: Response) => {
+router.get('/:id/allocations', requirePermission('donations:read'), async (req: Request, res: Response) => {
   try {
     const page = Math.max(Number(req.query.page) || 1, 1);
     const limit = Math.max(Number(req.query.limit) || 10, 1);
@@ -266,14 +403,14 @@ router.get('/:id/allocations/:id', async (req: Request, res: Response) => {
 /**
  * POST /:donationId/allocations
  * Creates one or more allocations for a specific donation.
- * Requires authentication and validates input using Zod.
+ * Requires the `donations:write` permission and validates input using Zod.
  * Verifies the donation exists, calculates allocation percentages
  * when not provided, and ensures total allocation does not exceed 100%.
  * Returns the created allocations or appropriate validation/server errors.
  */
 router.post(
   '/:id/allocations/',
-  authMiddleware,
+  requirePermission('donations:write'),
   async (req: Request, res: Response) => {
     try {
       const allocationsInput = createDonationAllocationsSchema.parse(req.body);
@@ -311,6 +448,12 @@ router.post(
       await prisma.donationAllocation.createMany({
         data: allocations,
       });
+      await recordAudit(req, {
+        action: 'create_allocations',
+        entityType: 'donation',
+        entityId: donation.donation_id,
+        after: { allocations },
+      });
 
       return successResponse(
         res,
@@ -336,14 +479,14 @@ router.post(
 /**
  * PUT /:donationId/allocations/:allocationId
  * Updates an existing allocation for a specific donation.
- * Requires authentication and validates input using Zod.
+ * Requires the `donations:write` permission and validates input using Zod.
  * Ensures both the donation and allocation exist.
  * Recalculates allocation percentage when amount or percent is updated.
  * Returns the updated allocation or appropriate errors.
  */
 router.put(
   '/:donationId/allocations/:allocationId',
-  authMiddleware,
+  requirePermission('donations:write'),
   async (req: Request, res: Response) => {
     try {
       const body = updateDonationAllocationSchema.parse(req.body);
@@ -377,6 +520,13 @@ router.put(
           percent,
         },
       });
+      await recordAudit(req, {
+        action: 'update',
+        entityType: 'donation_allocation',
+        entityId: updatedAllocation.donation_allocation_id,
+        before: allocation,
+        after: updatedAllocation,
+      });
 
       return successResponse(
         res,
@@ -400,32 +550,33 @@ router.put(
 
 /**
  * DELETE /:donationId/allocations/:allocationId
- * Deletes a specific allocation from a donation.
- * Requires authentication and verifies the allocation exists.
- * Returns a success message on successful deletion.
+ * Moves a specific allocation of a donation to the trash.
+ * Requires the `donations:write` permission and verifies the allocation exists.
+ * It can be restored through /api/trash until an admin purges it.
  * Handles server errors gracefully.
  */
 router.delete(
   '/:donationId/allocations/:allocationId',
-  authMiddleware,
+  requirePermission('donations:write'),
   async (req: Request, res: Response) => {
     try {
-      const allocation = await prisma.donationAllocation.findUnique({
-        where: { donation_allocation_id: req.params.allocationId },
-      });
+      const result = await moveToTrash('donation_allocation', req.params.allocationId);
 
-      if (!allocation) {
+      if (result.status === 'not_found') {
         return errorResponse(res, 'Donation allocation not found', 404);
       }
 
-      await prisma.donationAllocation.delete({
-        where: { donation_allocation_id: req.params.allocationId },
+      await recordAudit(req, {
+        action: 'delete',
+        entityType: 'donation_allocation',
+        entityId: req.params.allocationId,
+        before: result.record,
       });
 
       return successResponse(
         res,
         null,
-        'Donation allocation deleted successfully'
+        'Donation allocation moved to trash'
       );
     } catch (error) {
       return errorResponse(
@@ -1,20 +1,36 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../lib/prisma';
-import { authMiddleware } from '../middleware/auth';
+import { recordAudit } from '../lib/audit';
+import { moveToTrash } from '../lib/trash';
+import { shouldQuarantine, quarantineSubmission } from '../lib/quarantine';
+import { createEnrollment, moveEnrollment, statusActorOf, transitionEnrollment } from '../lib/enrollments';
+import { scheduleConflictMessage } from '../lib/scheduleConflicts';
+import { requirePermission, hasPermission, optionalAuthMiddleware } from '../middleware/auth';
+import { protectPublicSubmission } from '../middleware/spamProtection';
 import { successResponse, errorResponse, paginatedResponse } from '../helper/apiResponse';
-import { createEnrollmentSchema, updateEnrollmentSchema } from '../validators/enrollments';
+import {
+  createEnrollmentSchema,
+  updateEnrollmentSchema,
+  enrollmentTransitionSchema,
+  enrollmentActivationSchema,
+  enrollmentExitSchema,
+} from '../validators/enrollments';
+import { exportQuerySchema } from '../validators/exports';
+import { streamExport, exportBatchArgs } from '../lib/export';
 import { ZodError } from 'zod';
+import { EnrollmentStatus } from '@prisma/client';
 
 const router = Router();
 
 /**
  * GET /
  * Fetches a paginated list of enrollments ordered by newest first.
+ * Requires the `enrollments:read` permission.
  * Supports `page` and `limit` query parameters.
  * Includes related student and class data.
  * Returns 404 if no enrollments are found and handles server errors.
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', requirePermission('enrollments:read'), async (req: Request, res: Response) => {
   try {
     const page = Math.max(Number(req.query.page) || 1, 1);
     const limit = Math.max(Number(req.query.limit) || 10, 1);
@@ -48,13 +64,68 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /export
+ * Exports all enrollments as a CSV or XLSX file (`format`), newest first.
+ * Requires the `enrollments:read` and `data:export` permissions.
+ */
+router.get('/export', requirePermission('enrollments:read', 'data:export'), async (req: Request, res: Response) => {
+  try {
+    const { format } = exportQuerySchema.parse(req.query);
+
+    await streamExport(res, {
+      format,
+      fileName: 'enrollments',
+      fetchBatch: (cursor) =>
+        prisma.enrollments.findMany({
+          include: {
+            student: { select: { student_name: true } },
+            class: {
+              select: {
+                name: true,
+                program: { select: { name: true } },
+              },
+            },
+          },
+          orderBy: [
+            { created_at: 'desc' },
+            { enrollment_id: 'asc' },
+          ],
+          ...exportBatchArgs('enrollment_id', cursor),
+        }),
+      cursorOf: (enrollment) => enrollment.enrollment_id,
+      columns: [
+        { header: 'Enrollment ID', value: (enrollment) => enrollment.enrollment_id, width: 38 },
+        { header: 'Student ID', value: (enrollment) => enrollment.student_id, width: 38 },
+        { header: 'Student', value: (enrollment) => enrollment.student.student_name, width: 30 },
+        { header: 'Program', value: (enrollment) => enrollment.class.program.name, width: 30 },
+        { header: 'Class', value: (enrollment) => enrollment.class.name, width: 30 },
+        { header: 'Status', value: (enrollment) => enrollment.status },
+        { header: 'Registered At', value: (enrollment) => enrollment.register_at },
+        { header: 'Confirmed At', value: (enrollment) => enrollment.confirmed_at },
+      ],
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to export enrollments',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
 /**
  * GET /:id
  * Fetches a single enrollment by its unique ID.
+ * Requires the `enrollments:read` permission.
  * Returns 404 if the enrollment is not found.
  * Handles server errors gracefully.
  */
-router.get('/:id', async (req, res) => {
+router.get('/:id', requirePermission('enrollments:read'), async (req, res) => {
   try {
     const enrollment = await prisma.enrollments.findUnique({
       where: { enrollment_id: req.params.id },
@@ -73,16 +144,105 @@ router.get('/:id', async (req, res) => {
 
 /**
  * POST /
- * Creates a new enrollment.
- * Requires authentication and validates request body using Zod.
- * Returns the created enrollment with a 201 status code on success.
+ * Creates a new enrollment with status registered, or waitlisted when
+ * the class is at capacity.
+ * Open to the public; a bearer token or API key is optional and only
+ * identifies the caller in the audit log. Validates request body using Zod.
+ * Anonymous submissions are rate limited and flagged ones are quarantined
+ * for review, which returns 202 without creating the enrollment.
+ * The student must be within the class's age range, otherwise 422 is
+ * returned with the reason. Callers with the `enrollments:write`
+ * permission can override this with `age_override_reason`.
+ * Returns 409 with the overlapping schedules if the class clashes with
+ * another of the student's classes; callers with `enrollments:write` can
+ * enroll anyway with `allow_schedule_conflict`, which adds a warning.
+ * Returns the created enrollment with a 201 status code on success,
+ * 404 if the student or class does not exist, or 409 if the student is
+ * already enrolled in the class or their enrollment in it is in the trash.
  * Handles validation and server errors.
  */
-router.post('/', async (req, res) => {
+router.post('/', optionalAuthMiddleware, protectPublicSubmission, async (req, res) => {
   try {
     const data = createEnrollmentSchema.parse(req.body);
-    const enrollment = await prisma.enrollments.create({ data });
-    return successResponse(res, enrollment, 'Enrollment created', 201);
+
+    if (shouldQuarantine(req)) {
+      await quarantineSubmission(req, 'enrollment', req.body);
+      return successResponse(res, null, 'Enrollment received and is awaiting review', 202);
+    }
+
+    if (data.age_override_reason && !hasPermission(req, 'enrollments:write')) {
+      return errorResponse(res, 'Insufficient permissions to override the age requirement.', 403);
+    }
+    if (data.allow_schedule_conflict && !hasPermission(req, 'enrollments:write')) {
+      return errorResponse(res, 'Insufficient permissions to allow a schedule conflict.', 403);
+    }
+
+    const {
+      age_override_reason: ageOverrideReason,
+      allow_schedule_conflict: allowScheduleConflict,
+      ...enrollmentData
+    } = data;
+    const result = await prisma.$transaction((tx) =>
+      createEnrollment(enrollmentData, statusActorOf(req), tx, {
+        ageOverrideReason,
+        allowScheduleConflict,
+      })
+    );
+
+    if (result.status === 'not_found') {
+      return errorResponse(res, result.missing === 'student' ? 'Student not found' : 'Class not found', 404);
+    }
+    if (result.status === 'already_enrolled') {
+      return errorResponse(res, 'Student is already enrolled in this class', 409);
+    }
+    if (result.status === 'in_trash') {
+      return errorResponse(
+        res,
+        'The student\'s enrollment in this class is in the trash; restore it through /api/trash',
+        409,
+        { entity: 'enrollment', id: result.enrollment_id }
+      );
+    }
+    if (result.status === 'ineligible') {
+      return errorResponse(res, result.message, 422, result.eligibility);
+    }
+    if (result.status === 'schedule_conflict') {
+      return errorResponse(res, scheduleConflictMessage(result.conflicts), 409, result.conflicts);
+    }
+
+    const { enrollment } = result;
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'enrollment',
+      entityId: enrollment.enrollment_id,
+      after: enrollment,
+    });
+    if (result.ageOverridden) {
+      await recordAudit(req, {
+        action: 'age_override',
+        entityType: 'enrollment',
+        entityId: enrollment.enrollment_id,
+        after: { reason: ageOverrideReason },
+      });
+    }
+    if (result.scheduleConflicts.length > 0) {
+      await recordAudit(req, {
+        action: 'schedule_conflict_override',
+        entityType: 'enrollment',
+        entityId: enrollment.enrollment_id,
+        after: { conflicts: result.scheduleConflicts },
+      });
+    }
+
+    const messages = [
+      enrollment.status === 'waitlisted'
+        ? `Class is full; enrollment added to the waitlist at position ${enrollment.waitlist_position}`
+        : 'Enrollment created',
+    ];
+    if (result.scheduleConflicts.length > 0) {
+      messages.push(`Warning: ${scheduleConflictMessage(result.scheduleConflicts)}`);
+    }
+    return successResponse(res, enrollment, messages.join('. '), 201);
   } catch (error) {
     if (error instanceof ZodError) {
       return errorResponse(res, "Validation failed", 400, error.errors)
@@ -99,19 +259,100 @@ router.post('/', async (req, res) => {
 
 /**
  * PUT /:id
- * Updates an existing enrollment by its unique ID.
- * Requires authentication and validates request body using Zod.
- * Returns the updated enrollment on success.
+ * Moves an enrollment to another student or class, keeping its status.
+ * Requires the `enrollments:write` permission and validates request body using Zod.
+ * The status cannot be set here; use the transition endpoints below.
+ * The new placement is checked like a new enrollment: 422 if the student
+ * is not within the class's age range (override with `age_override_reason`)
+ * and 409 if it clashes with the student's schedule (override with
+ * `allow_schedule_conflict`). A confirmed or active enrollment needs a free
+ * seat in the new class (409 otherwise); a waitlisted one joins the end of
+ * its waitlist. A seat left behind goes to the next waitlisted student.
+ * Returns the updated enrollment on success, or 404 if the enrollment,
+ * student or class does not exist, and 409 if the student is already
+ * enrolled in the class or their enrollment in it is in the trash.
  * Handles validation and server errors.
  */
-router.put('/:id', authMiddleware, async (req, res) => {
+router.put('/:id', requirePermission('enrollments:write'), async (req, res) => {
   try {
-    const data = updateEnrollmentSchema.parse(req.body);
-    const enrollment = await prisma.enrollments.update({
-      where: { enrollment_id: req.params.id },
-      data,
+    const {
+      age_override_reason: ageOverrideReason,
+      allow_schedule_conflict: allowScheduleConflict,
+      ...changes
+    } = updateEnrollmentSchema.parse(req.body);
+
+    const result = await moveEnrollment(req.params.id, changes, statusActorOf(req), {
+      ageOverrideReason,
+      allowScheduleConflict,
     });
-    return successResponse(res, enrollment, 'Enrollment updated');
+
+    switch (result.status) {
+      case 'not_found':
+        return errorResponse(
+          res,
+          result.missing === 'enrollment'
+            ? 'Enrollment not found'
+            : result.missing === 'student' ? 'Student not found' : 'Class not found',
+          404
+        );
+      case 'already_enrolled':
+        return errorResponse(res, 'Student is already enrolled in this class', 409);
+      case 'in_trash':
+        return errorResponse(
+          res,
+          'The student\'s enrollment in this class is in the trash; restore it through /api/trash',
+          409,
+          { entity: 'enrollment', id: result.enrollment_id }
+        );
+      case 'ineligible':
+        return errorResponse(res, result.message, 422, result.eligibility);
+      case 'schedule_conflict':
+        return errorResponse(res, scheduleConflictMessage(result.conflicts), 409, result.conflicts);
+      case 'class_full':
+        return errorResponse(res, 'Class is full', 409, { capacity: result.capacity });
+    }
+
+    const { before, enrollment } = result;
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'enrollment',
+      entityId: enrollment.enrollment_id,
+      before,
+      after: enrollment,
+    });
+    if (result.ageOverridden) {
+      await recordAudit(req, {
+        action: 'age_override',
+        entityType: 'enrollment',
+        entityId: enrollment.enrollment_id,
+        after: { reason: ageOverrideReason },
+      });
+    }
+    if (result.scheduleConflicts.length > 0) {
+      await recordAudit(req, {
+        action: 'schedule_conflict_override',
+        entityType: 'enrollment',
+        entityId: enrollment.enrollment_id,
+        after: { conflicts: result.scheduleConflicts },
+      });
+    }
+    for (const promoted of result.promoted) {
+      await recordAudit(req, {
+        action: 'waitlist_promote',
+        entityType: 'enrollment',
+        entityId: promoted.enrollment_id,
+        after: promoted,
+      });
+    }
+
+    const messages = ['Enrollment updated'];
+    if (result.promoted.length > 0) {
+      messages.push(`${result.promoted.length} promoted from the waitlist`);
+    }
+    if (result.scheduleConflicts.length > 0) {
+      messages.push(`Warning: ${scheduleConflictMessage(result.scheduleConflicts)}`);
+    }
+    return successResponse(res, enrollment, messages.join('. '));
   } catch (error) {
     if (error instanceof ZodError) {
       return errorResponse(res, "Validation failed", 400, error.errors);
@@ -125,21 +366,211 @@ router.put('/:id', authMiddleware, async (req, res) => {
   }
 });
 
+/**
+ * Handler for a status transition. The body may carry a `reason`, which
+ * `schema` can make required. Returns 404 if the enrollment is not found,
+ * or 409 with the allowed statuses if the transition is not allowed or
+ * with the capacity if the class is full. Seats that free up are given
+ * to the waitlist, which is mentioned in the message, as is a registered
+ * enrollment that was waitlisted because its class is full.
+ */
+const transitionHandler = (
+  to: EnrollmentStatus,
+  schema:
+    | typeof enrollmentTransitionSchema
+    | typeof enrollmentActivationSchema
+    | typeof enrollmentExitSchema = enrollmentTransitionSchema
+) => async (req: Request, res: Response) => {
+  try {
+    const body = schema.parse(req.body ?? {});
+    const result = await transitionEnrollment(req.params.id, to, statusActorOf(req), body.reason, {
+      allowScheduleConflict: 'allow_schedule_conflict' in body && body.allow_schedule_conflict === true,
+    });
+
+    if (result.status === 'not_found') {
+      return errorResponse(res, 'Enrollment not found', 404);
+    }
+    if (result.status === 'invalid_transition') {
+      return errorResponse(
+        res,
+        `Cannot change an enrollment from ${result.from} to ${to}`,
+        409,
+        { from: result.from, allowed: result.allowed }
+      );
+    }
+    if (result.status === 'class_full') {
+      return errorResponse(res, 'Class is full', 409, { capacity: result.capacity });
+    }
+    if (result.status === 'schedule_conflict') {
+      return errorResponse(res, scheduleConflictMessage(result.conflicts), 409, result.conflicts);
+    }
+
+    await recordAudit(req, {
+      action: 'status_change',
+      entityType: 'enrollment',
+      entityId: result.enrollment.enrollment_id,
+      before: result.before,
+      after: result.enrollment,
+    });
+    for (const promoted of result.promoted) {
+      await recordAudit(req, {
+        action: 'waitlist_promote',
+        entityType: 'enrollment',
+        entityId: promoted.enrollment_id,
+        after: promoted,
+      });
+    }
+
+    if (result.scheduleConflicts.length > 0) {
+      await recordAudit(req, {
+        action: 'schedule_conflict_override',
+        entityType: 'enrollment',
+        entityId: result.enrollment.enrollment_id,
+        after: { conflicts: result.scheduleConflicts },
+      });
+    }
+
+    const messages = [
+      result.enrollment.status === 'waitlisted'
+        ? `Class is full; enrollment added to the waitlist at position ${result.enrollment.waitlist_position}`
+        : result.promoted.length > 0
+          ? `Enrollment status changed to ${to}; ${result.promoted.length} promoted from the waitlist`
+          : `Enrollment status changed to ${to}`,
+    ];
+    if (result.scheduleConflicts.length > 0) {
+      messages.push(`Warning: ${scheduleConflictMessage(result.scheduleConflicts)}`);
+    }
+    return successResponse(res, result.enrollment, messages.join('. '));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to change enrollment status',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+};
+
+/**
+ * POST /:id/confirm
+ * Confirms a registered or waitlisted enrollment and stamps `confirmed_at`.
+ * Requires the `enrollments:write` permission and a free seat in the class.
+ * A registered enrollment in a full class joins the end of its waitlist
+ * instead; a waitlisted one gets 409.
+ */
+router.post('/:id/confirm', requirePermission('enrollments:write'), transitionHandler('confirmed'));
+
+/**
+ * POST /:id/activate
+ * Marks a confirmed enrollment as active once the student starts
+ * attending, and stamps `activated_at`.
+ * Requires the `enrollments:write` permission.
+ * Returns 409 with the overlapping schedules if the class clashes with
+ * another of the student's classes, unless `allow_schedule_conflict` is set.
+ */
+router.post('/:id/activate', requirePermission('enrollments:write'), transitionHandler('active', enrollmentActivationSchema));
+
+/**
+ * POST /:id/complete
+ * Completes an active enrollment and stamps `completed_at`.
+ * Requires the `enrollments:write` permission.
+ */
+router.post('/:id/complete', requirePermission('enrollments:write'), transitionHandler('completed'));
+
+/**
+ * POST /:id/drop
+ * Drops an enrollment that has not been completed and stamps `dropped_at`.
+ * Requires the `enrollments:write` permission and a `reason`.
+ */
+router.post('/:id/drop', requirePermission('enrollments:write'), transitionHandler('dropped', enrollmentExitSchema));
+
+/**
+ * POST /:id/reject
+ * Rejects a registered enrollment and stamps `rejected_at`.
+ * Requires the `enrollments:write` permission and a `reason`.
+ */
+router.post('/:id/reject', requirePermission('enrollments:write'), transitionHandler('rejected', enrollmentExitSchema));
+
+/**
+ * GET /:id/history
+ * Fetches the status history of an enrollment, oldest first, with the
+ * user who made each change.
+ * Requires the `enrollments:read` permission.
+ * Returns 404 if the enrollment is not found.
+ */
+router.get('/:id/history', requirePermission('enrollments:read'), async (req: Request, res: Response) => {
+  try {
+    const enrollment = await prisma.enrollments.findUnique({
+      where: { enrollment_id: req.params.id },
+      select: { enrollment_id: true },
+    });
+    if (!enrollment) {
+      return errorResponse(res, 'Enrollment not found', 404);
+    }
+
+    const history = await prisma.enrollmentStatusHistory.findMany({
+      where: { enrollment_id: enrollment.enrollment_id },
+      include: {
+        changed_by: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { created_at: 'asc' },
+    });
+
+    return successResponse(res, history, 'Enrollment history fetched successfully');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch enrollment history',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
 /**
  * DELETE /:id
- * Deletes an enrollment by its unique ID.
- * Requires authentication.
- * Returns a success message on successful deletion.
- * Handles server errors gracefully.
+ * Moves an enrollment to the trash.
+ * Requires the `enrollments:write` permission.
+ * It can be restored through /api/trash until an admin purges it.
+ * A freed seat goes to the first student on the class's waitlist, and
+ * removing a waitlisted enrollment closes the gap in the waitlist.
+ * Returns 404 if the enrollment is not found.
  */
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', requirePermission('enrollments:write'), async (req, res) => {
   try {
-    await prisma.enrollments.delete({ where: { enrollment_id: req.params.id } });
-    return successResponse(res, null, 'Enrollment deleted');
+    const result = await moveToTrash('enrollment', req.params.id, statusActorOf(req));
+    if (result.status === 'not_found') {
+      return errorResponse(res, 'Enrollment not found', 404);
+    }
+
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'enrollment',
+      entityId: req.params.id,
+      before: result.record,
+    });
+    for (const promoted of result.promoted) {
+      await recordAudit(req, {
+        action: 'waitlist_promote',
+        entityType: 'enrollment',
+        entityId: promoted.enrollment_id,
+        after: promoted,
+      });
+    }
+
+    return successResponse(res, null, 'Enrollment moved to trash');
   } catch (error) {
     return errorResponse(
       res,
-      "Failed to delete enrollment",
+      'Failed to delete enrollment',
       500,
       error instanceof Error ? error.message : error
     );
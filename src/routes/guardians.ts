@@ -0,0 +1,340 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { prisma } from '../lib/prisma';
+import { recordAudit } from '../lib/audit';
+import { moveToTrash } from '../lib/trash';
+import { findGuardianByWhatsapp, linkGuardian } from '../lib/guardians';
+import { requirePermission } from '../middleware/auth';
+import { successResponse, errorResponse, paginatedResponse } from '../helper/apiResponse';
+import { phoneSearchDigits } from '../helper/phone';
+import { withAge } from '../helper/age';
+import {
+  createGuardianSchema,
+  updateGuardianSchema,
+  listGuardiansQuerySchema,
+  linkStudentSchema,
+} from '../validators/guardians';
+
+const router = Router();
+
+/**
+ * GET /
+ * Fetches a paginated list of guardians ordered by name.
+ * Requires the `students:read_pii` permission.
+ * Supports `page`, `limit` and a `search` on name or WhatsApp number.
+ * Includes the number of linked students.
+ */
+router.get('/', requirePermission('students:read_pii'), async (req: Request, res: Response) => {
+  try {
+    const query = listGuardiansQuerySchema.parse(req.query);
+
+    const where = query.search
+      ? {
+        OR: [
+          { name: { contains: query.search } },
+          { whatsapp: { contains: phoneSearchDigits(query.search) || query.search } },
+        ],
+      }
+      : {};
+
+    const [totalItems, guardians] = await Promise.all([
+      prisma.guardians.count({ where }),
+      prisma.guardians.findMany({
+        where,
+        include: {
+          _count: { select: { students: true } },
+        },
+        orderBy: { name: 'asc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+    ]);
+
+    return paginatedResponse(
+      res,
+      guardians,
+      { page: query.page, limit: query.limit, totalItems },
+      'Guardians fetched successfully'
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to fetch guardians',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * GET /:id
+ * Fetches a single guardian with the linked students.
+ * Requires the `students:read_pii` permission.
+ * Returns 404 if the guardian is not found.
+ */
+router.get('/:id', requirePermission('students:read_pii'), async (req: Request, res: Response) => {
+  try {
+    const guardian = await prisma.guardians.findUnique({
+      where: { guardian_id: req.params.id },
+      include: {
+        students: {
+          include: {
+            student: {
+              select: {
+                student_id: true,
+                student_name: true,
+                date_of_birth: true,
+              },
+            },
+          },
+          orderBy: { created_at: 'asc' },
+        },
+      },
+    });
+
+    if (!guardian) {
+      return errorResponse(res, 'Guardian not found', 404);
+    }
+
+    return successResponse(
+      res,
+      {
+        ...guardian,
+        students: guardian.students.map((link) => ({
+          ...link,
+          student: withAge(link.student),
+        })),
+      },
+      'Guardian fetched successfully'
+    );
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch guardian',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /
+ * Creates a new guardian.
+ * Requires the `students:write` permission and validates input using Zod.
+ * Stores the WhatsApp number in E.164 format.
+ * Returns 409 if a guardian with the same number already exists.
+ */
+router.post('/', requirePermission('students:write'), async (req: Request, res: Response) => {
+  try {
+    const body = createGuardianSchema.parse(req.body);
+
+    if (await findGuardianByWhatsapp(body.whatsapp)) {
+      return errorResponse(res, 'A guardian with this WhatsApp number already exists', 409);
+    }
+
+    const guardian = await prisma.guardians.create({
+      data: body,
+    });
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'guardian',
+      entityId: guardian.guardian_id,
+      after: guardian,
+    });
+
+    return successResponse(res, guardian, 'Guardian created successfully', 201);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to create guardian',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * PUT /:id
+ * Updates a guardian. Changes apply to every linked student.
+ * Requires the `students:write` permission and validates input using Zod.
+ * Returns 404 if the guardian is not found, or 409 if the new
+ * WhatsApp number belongs to another guardian.
+ */
+router.put('/:id', requirePermission('students:write'), async (req: Request, res: Response) => {
+  try {
+    const body = updateGuardianSchema.parse(req.body);
+
+    const existing = await prisma.guardians.findUnique({
+      where: { guardian_id: req.params.id },
+    });
+    if (!existing) {
+      return errorResponse(res, 'Guardian not found', 404);
+    }
+
+    if (body.whatsapp) {
+      const other = await findGuardianByWhatsapp(body.whatsapp);
+      if (other && other.guardian_id !== existing.guardian_id) {
+        return errorResponse(res, 'A guardian with this WhatsApp number already exists', 409);
+      }
+    }
+
+    const guardian = await prisma.guardians.update({
+      where: { guardian_id: existing.guardian_id },
+      data: body,
+    });
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'guardian',
+      entityId: guardian.guardian_id,
+      before: existing,
+      after: guardian,
+    });
+
+    return successResponse(res, guardian, 'Guardian updated successfully');
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to update guardian',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * DELETE /:id
+ * Moves a guardian to the trash, which hides it from its students.
+ * Requires the `students:write` permission.
+ * Students are kept. Registering a child with the guardian's WhatsApp
+ * number again restores the guardian.
+ * Returns 404 if the guardian is not found.
+ */
+router.delete('/:id', requirePermission('students:write'), async (req: Request, res: Response) => {
+  try {
+    const result = await moveToTrash('guardian', req.params.id);
+    if (result.status === 'not_found') {
+      return errorResponse(res, 'Guardian not found', 404);
+    }
+
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'guardian',
+      entityId: req.params.id,
+      before: result.record,
+    });
+
+    return successResponse(res, null, 'Guardian moved to trash');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to delete guardian',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /:id/students
+ * Links a guardian to a student, e.g. a second parent or a sibling.
+ * Requires the `students:write` permission and validates input using Zod.
+ * Setting `is_primary` makes this the student's primary guardian.
+ * Returns 404 if the guardian or student is not found.
+ */
+router.post('/:id/students', requirePermission('students:write'), async (req: Request, res: Response) => {
+  try {
+    const body = linkStudentSchema.parse(req.body);
+
+    const [guardian, student] = await Promise.all([
+      prisma.guardians.findUnique({ where: { guardian_id: req.params.id } }),
+      prisma.students.findUnique({ where: { student_id: body.student_id } }),
+    ]);
+
+    if (!guardian) {
+      return errorResponse(res, 'Guardian not found', 404);
+    }
+    if (!student) {
+      return errorResponse(res, 'Student not found', 404);
+    }
+
+    const link = await prisma.$transaction((tx) =>
+      linkGuardian(student.student_id, guardian.guardian_id, body.is_primary, tx)
+    );
+    await recordAudit(req, {
+      action: 'link_student',
+      entityType: 'guardian',
+      entityId: guardian.guardian_id,
+      after: link,
+    });
+
+    return successResponse(res, link, 'Guardian linked to student successfully', 201);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to link guardian',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * DELETE /:id/students/:studentId
+ * Unlinks a guardian from a student.
+ * Requires the `students:write` permission.
+ * Returns 404 if the guardian is not linked to the student.
+ */
+router.delete('/:id/students/:studentId', requirePermission('students:write'), async (req: Request, res: Response) => {
+  try {
+    const link = await prisma.studentGuardians.findUnique({
+      where: {
+        student_id_guardian_id: {
+          student_id: req.params.studentId,
+          guardian_id: req.params.id,
+        },
+      },
+    });
+
+    if (!link) {
+      return errorResponse(res, 'Guardian is not linked to this student', 404);
+    }
+
+    await prisma.studentGuardians.delete({
+      where: {
+        student_id_guardian_id: {
+          student_id: link.student_id,
+          guardian_id: link.guardian_id,
+        },
+      },
+    });
+    await recordAudit(req, {
+      action: 'unlink_student',
+      entityType: 'guardian',
+      entityId: link.guardian_id,
+      before: link,
+    });
+
+    return successResponse(res, null, 'Guardian unlinked from student successfully');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to unlink guardian',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+export default router;
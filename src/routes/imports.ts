@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { recordAudit } from '../lib/audit';
+import { readSpreadsheet } from '../lib/spreadsheet';
+import { statusActorOf } from '../lib/enrollments';
+import {
+  planRegistrationImport,
+  commitRegistrationImport,
+  MAX_IMPORT_ROWS,
+} from '../lib/registrationImport';
+import { requirePermission } from '../middleware/auth';
+import { uploadSpreadsheet } from '../middleware/upload';
+import { successResponse, errorResponse } from '../helper/apiResponse';
+import { importQuerySchema } from '../validators/imports';
+
+const router = Router();
+
+/**
+ * POST /registrations
+ * Imports students and their enrollments from a CSV or XLSX file uploaded
+ * as multipart/form-data in the `file` field.
+ * Requires the `students:write` and `enrollments:write` permissions.
+ * Columns: student_name, date_of_birth, parent_name, whatsapp, relationship,
+ * class_name, program_name, status, register_at and confirmed_at.
+ * With `dry_run=true` only the per-row report is returned. Otherwise the
+ * valid rows are imported in one transaction and invalid rows are skipped.
+ * Returns 400 if the file has no rows, too many rows or no valid rows,
+ * and 409 if a class filled up, or a student on a row got a conflicting
+ * enrollment, between checking and importing the rows.
+ */
+router.post(
+  '/registrations',
+  requirePermission('students:write', 'enrollments:write'),
+  uploadSpreadsheet,
+  async (req: Request, res: Response) => {
+    try {
+      const query = importQuerySchema.parse(req.query);
+      const file = req.file!;
+
+      let rows;
+      try {
+        rows = await readSpreadsheet(file.buffer, file.originalname);
+      } catch (error) {
+        return errorResponse(
+          res,
+          'Could not read the file',
+          400,
+          error instanceof Error ? error.message : error
+        );
+      }
+
+      if (rows.length === 0) {
+        return errorResponse(res, 'The file has no rows to import', 400);
+      }
+      if (rows.length > MAX_IMPORT_ROWS) {
+        return errorResponse(res, `A file can have at most ${MAX_IMPORT_ROWS} rows`, 400);
+      }
+
+      const plan = await planRegistrationImport(rows);
+      const report = {
+        dry_run: query.dry_run,
+        total_rows: plan.rows.length,
+        valid_rows: plan.validRows.length,
+        invalid_rows: plan.rows.length - plan.validRows.length,
+        rows: plan.rows,
+      };
+
+      if (query.dry_run) {
+        return successResponse(res, report, 'Import checked successfully');
+      }
+      if (plan.validRows.length === 0) {
+        return errorResponse(res, 'The file has no valid rows to import', 400, report);
+      }
+
+      const result = await commitRegistrationImport(plan, statusActorOf(req));
+      if (result.status === 'class_full') {
+        return errorResponse(
+          res,
+          'A class filled up while importing, check the file again',
+          409,
+          { class_id: result.class_id, capacity: result.capacity }
+        );
+      }
+      if (result.status === 'row_conflict') {
+        return errorResponse(
+          res,
+          `Line ${result.line}: ${result.message}, check the file again`,
+          409,
+          { line: result.line }
+        );
+      }
+      await recordAudit(req, {
+        action: 'import',
+        entityType: 'registration_import',
+        entityId: crypto.randomUUID(),
+        after: {
+          file: file.originalname,
+          total_rows: report.total_rows,
+          valid_rows: report.valid_rows,
+          created_students: result.createdStudents,
+          created_enrollments: result.createdEnrollments,
+        },
+      });
+
+      return successResponse(
+        res,
+        {
+          ...report,
+          created_students: result.createdStudents,
+          created_enrollments: result.createdEnrollments,
+        },
+        'Registrations imported successfully',
+        201
+      );
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return errorResponse(res, 'Validation failed', 400, error.errors);
+      }
+      return errorResponse(
+        res,
+        'Failed to import registrations',
+        500,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,194 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { studentGuardiansInclude } from '../lib/guardians';
+import { requirePermission, hasPermission } from '../middleware/auth';
+import { successResponse, errorResponse } from '../helper/apiResponse';
+import { calculateAge } from '../helper/age';
+
+const router = Router();
+
+router.use(requirePermission('mentor_portal:read'));
+
+/**
+ * Resolve the Mentors record linked to the authenticated user
+ */
+const resolveMentorId = async (req: Request): Promise<string | null> => {
+  const user = await prisma.user.findUnique({
+    where: { id: req.user!.id },
+    select: { mentorId: true },
+  });
+  return user?.mentorId ?? null;
+};
+
+/**
+ * GET /classes
+ * Fetches the classes taught by the authenticated mentor.
+ * Requires the `mentor_portal:read` permission and a linked mentor.
+ * Includes program, weekly schedules and the number of active students.
+ * Handles server errors gracefully.
+ */
+router.get('/classes', async (req: Request, res: Response) => {
+  try {
+    const mentorId = await resolveMentorId(req);
+    if (!mentorId) {
+      return errorResponse(res, 'Account is not linked to a mentor', 403);
+    }
+
+    const classes = await prisma.classes.findMany({
+      where: { mentor_id: mentorId },
+      include: {
+        program: {
+          select: {
+            program_id: true,
+            name: true,
+          },
+        },
+        schedules: {
+          orderBy: [
+            { day_of_week: 'asc' },
+            { start_time: 'asc' },
+          ],
+        },
+        _count: {
+          select: {
+            enrollments: { where: { status: 'active' } },
+          },
+        },
+      },
+      orderBy: { started_at: 'desc' },
+    });
+
+    return successResponse(res, classes, 'Classes fetched successfully');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch classes',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * GET /schedule
+ * Fetches the weekly schedule of the authenticated mentor's active classes.
+ * Requires the `mentor_portal:read` permission and a linked mentor.
+ * Returns schedules ordered by day and time with class and program names.
+ * Handles server errors gracefully.
+ */
+router.get('/schedule', async (req: Request, res: Response) => {
+  try {
+    const mentorId = await resolveMentorId(req);
+    if (!mentorId) {
+      return errorResponse(res, 'Account is not linked to a mentor', 403);
+    }
+
+    const schedules = await prisma.schedules.findMany({
+      where: {
+        class: {
+          mentor_id: mentorId,
+          status: 'active',
+        },
+      },
+      include: {
+        class: {
+          select: {
+            class_id: true,
+            name: true,
+            started_at: true,
+            ended_at: true,
+            program: {
+              select: {
+                program_id: true,
+                name: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: [
+        { day_of_week: 'asc' },
+        { start_time: 'asc' },
+      ],
+    });
+
+    return successResponse(res, schedules, 'Schedule fetched successfully');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch schedule',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * GET /classes/:id/students
+ * Fetches the roster of active students for one of the mentor's classes.
+ * Requires the `mentor_portal:read` permission and a linked mentor.
+ * Guardian contact details are only included with `students:read_pii`.
+ * Returns 404 if the class does not exist or belongs to another mentor.
+ */
+router.get('/classes/:id/students', async (req: Request, res: Response) => {
+  try {
+    const mentorId = await resolveMentorId(req);
+    if (!mentorId) {
+      return errorResponse(res, 'Account is not linked to a mentor', 403);
+    }
+
+    const cls = await prisma.classes.findFirst({
+      where: {
+        class_id: req.params.id,
+        mentor_id: mentorId,
+      },
+      select: { class_id: true, started_at: true },
+    });
+
+    if (!cls) {
+      return errorResponse(res, 'Class not found', 404);
+    }
+
+    const includePii = hasPermission(req, 'students:read_pii');
+
+    const enrollments = await prisma.enrollments.findMany({
+      where: {
+        class_id: cls.class_id,
+        status: 'active',
+      },
+      select: {
+        enrollment_id: true,
+        confirmed_at: true,
+        student: {
+          select: {
+            student_id: true,
+            student_name: true,
+            date_of_birth: true,
+            ...(includePii && { guardians: studentGuardiansInclude }),
+          },
+        },
+      },
+      orderBy: { student: { student_name: 'asc' } },
+    });
+
+    const roster = enrollments.map((enrollment) => ({
+      ...enrollment,
+      student: {
+        ...enrollment.student,
+        age: calculateAge(enrollment.student.date_of_birth),
+        age_at_class_start: calculateAge(enrollment.student.date_of_birth, cls.started_at),
+      },
+    }));
+
+    return successResponse(res, roster, 'Students fetched successfully');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch students',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+export default router;
@@ -1,7 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../lib/prisma';
+import { recordAudit } from '../lib/audit';
+import { moveToTrash } from '../lib/trash';
+import { statusActorOf } from '../lib/enrollments';
 import { ZodError } from 'zod';
-import { authMiddleware } from '../middleware/auth';
+import { requirePermission } from '../middleware/auth';
 import {
   successResponse,
   errorResponse,
@@ -11,6 +14,8 @@ import {
   createMentorSchema,
   updateMentorSchema,
 } from '../validators/mentors';
+import { exportQuerySchema } from '../validators/exports';
+import { streamExport, exportBatchArgs } from '../lib/export';
 import { error } from 'console';
 
 const router = Router();
@@ -54,6 +59,55 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /export
+ * Exports all mentors as a CSV or XLSX file (`format`), newest first.
+ * Requires the `data:export` permission.
+ */
+router.get('/export', requirePermission('data:export'), async (req: Request, res: Response) => {
+  try {
+    const { format } = exportQuerySchema.parse(req.query);
+
+    await streamExport(res, {
+      format,
+      fileName: 'mentors',
+      fetchBatch: (cursor) =>
+        prisma.mentors.findMany({
+          include: {
+            classes: { select: { name: true } },
+          },
+          orderBy: [
+            { created_at: 'desc' },
+            { mentor_id: 'asc' },
+          ],
+          ...exportBatchArgs('mentor_id', cursor),
+        }),
+      cursorOf: (mentor) => mentor.mentor_id,
+      columns: [
+        { header: 'Mentor ID', value: (mentor) => mentor.mentor_id, width: 38 },
+        { header: 'Name', value: (mentor) => mentor.name, width: 30 },
+        { header: 'Contact', value: (mentor) => mentor.contact },
+        {
+          header: 'Classes',
+          value: (mentor) => mentor.classes.map((cls) => cls.name).join('; '),
+          width: 40,
+        },
+        { header: 'Created At', value: (mentor) => mentor.created_at },
+      ],
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to export mentors',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
 /**
  * GET /:id
  * Fetches a single mentor by its unique ID.
@@ -84,14 +138,20 @@ router.get('/:id', async (req: Request, res: Response) => {
 /**
  * POST /
  * Creates a new mentor.
- * Requires authentication and validates request body using Zod.
+ * Requires the `mentors:write` permission and validates request body using Zod.
  * Returns the created mentor with a 201 status code on success.
  * Handles validation and server errors.
  */
-router.post('/', authMiddleware, async (req: Request, res: Response) => {
+router.post('/', requirePermission('mentors:write'), async (req: Request, res: Response) => {
   try {
     const data = createMentorSchema.parse(req.body);
     const mentor = await prisma.mentors.create({ data });
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'mentor',
+      entityId: mentor.mentor_id,
+      after: mentor,
+    });
 
     return successResponse(res, mentor, 'Mentor created successfully', 201);
   } catch (error) {
@@ -105,21 +165,35 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
 /**
  * PUT /:id
  * Updates an existing mentor by its unique ID.
- * Requires authentication and validates request body using Zod.
- * Returns the updated mentor on success.
+ * Requires the `mentors:write` permission and validates request body using Zod.
+ * Returns the updated mentor on success, or 404 if it does not exist.
  * Handles validation and server errors.
  */
-router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
+router.put('/:id', requirePermission('mentors:write'), async (req: Request, res: Response) => {
   try {
     const data = updateMentorSchema.parse(req.body);
 
+    const existing = await prisma.mentors.findUnique({
+      where: { mentor_id: req.params.id },
+    });
+    if (!existing) {
+      return errorResponse(res, 'Mentor not found', 404);
+    }
+
     const mentor = await prisma.mentors.update({
       where: { mentor_id: req.params.id },
       data,
     });
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'mentor',
+      entityId: mentor.mentor_id,
+      before: existing,
+      after: mentor,
+    });
 
     return successResponse(res, mentor, 'Mentor updated successfully');
-  } catch {
+  } catch (error) {
     if (error instanceof ZodError) {
       return errorResponse(
         res,
@@ -134,20 +208,42 @@ router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
 
 /**
  * DELETE /:id
- * Deletes a mentor by its unique ID.
- * Requires authentication.
- * Returns a success message on successful deletion.
- * Handles server errors gracefully.
+ * Moves a mentor to the trash along with its classes and their
+ * enrollments and schedules.
+ * Requires the `mentors:write` permission.
+ * It can be restored through /api/trash until an admin purges it.
+ * Returns 404 if the mentor is not found.
  */
-router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('mentors:write'), async (req: Request, res: Response) => {
   try {
-    await prisma.mentors.delete({
-      where: { mentor_id: req.params.id },
+    const result = await moveToTrash('mentor', req.params.id, statusActorOf(req));
+    if (result.status === 'not_found') {
+      return errorResponse(res, 'Mentor not found', 404);
+    }
+
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'mentor',
+      entityId: req.params.id,
+      before: result.record,
     });
+    for (const promoted of result.promoted) {
+      await recordAudit(req, {
+        action: 'waitlist_promote',
+        entityType: 'enrollment',
+        entityId: promoted.enrollment_id,
+        after: promoted,
+      });
+    }
 
-    return successResponse(res, null, 'Mentor deleted successfully');
+    return successResponse(res, null, 'Mentor moved to trash');
   } catch (error) {
-    return errorResponse(res, 'Failed to delete mentor', 500, error instanceof Error ? error.message : error);
+    return errorResponse(
+      res,
+      'Failed to delete mentor',
+      500,
+      error instanceof Error ? error.message : error
+    );
   }
 });
 
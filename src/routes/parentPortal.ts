@@ -0,0 +1,365 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { AnnouncementCategory } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { requestParentOtp, verifyParentOtp } from '../lib/parentOtp';
+import {
+  getSessionContext,
+  startParentSession,
+  listActiveParentSessions,
+  revokeParentSession,
+} from '../lib/sessions';
+import { requirePermission } from '../middleware/auth';
+import { successResponse, errorResponse, paginatedResponse } from '../helper/apiResponse';
+import { withAge } from '../helper/age';
+import { requestOtpSchema, verifyOtpSchema } from '../validators/parents';
+
+const router = Router();
+
+/**
+ * Fetch the children linked to the authenticated parent's guardian record with their
+ * active enrollments, classes and weekly schedules
+ */
+const findChildren = async (req: Request) => {
+  const parent = await prisma.parentAccount.findUnique({
+    where: { id: req.user!.id },
+  });
+
+  if (!parent) {
+    return null;
+  }
+
+  return prisma.students.findMany({
+    where: {
+      guardians: { some: { guardian: { whatsapp: parent.whatsapp } } },
+    },
+    include: {
+      enrollments: {
+        where: { status: 'active' },
+        include: {
+          class: {
+            include: {
+              program: {
+                select: {
+                  program_id: true,
+                  name: true,
+                },
+              },
+              mentor: {
+                select: {
+                  mentor_id: true,
+                  name: true,
+                },
+              },
+              schedules: {
+                orderBy: [
+                  { day_of_week: 'asc' },
+                  { start_time: 'asc' },
+                ],
+              },
+            },
+          },
+        },
+      },
+    },
+    orderBy: { student_name: 'asc' },
+  });
+};
+
+/**
+ * POST /auth/request-otp
+ * Sends a one-time login code to a parent's WhatsApp number.
+ * Validates input using Zod. Codes are only sent to numbers registered
+ * on at least one student, but the response does not reveal whether
+ * the number is registered.
+ * Returns 429 if a code was requested for the number less than a minute
+ * ago, registered or not, or if the IP address made too many requests.
+ */
+router.post('/auth/request-otp', async (req: Request, res: Response) => {
+  try {
+    const body = requestOtpSchema.parse(req.body);
+
+    const result = await requestParentOtp(body.whatsapp, getSessionContext(req).ipAddress);
+
+    if (result.status === 'too_soon' || result.status === 'too_many_requests') {
+      res.setHeader('Retry-After', String(result.retryAfterSeconds));
+      return errorResponse(
+        res,
+        result.status === 'too_soon'
+          ? 'Please wait before requesting another code'
+          : 'Too many code requests, please try again later',
+        429,
+        { retryAfterSeconds: result.retryAfterSeconds }
+      );
+    }
+
+    return successResponse(
+      res,
+      null,
+      'If the number is registered, a login code has been sent via WhatsApp'
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to send login code',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /auth/verify-otp
+ * Verifies a one-time login code and logs the parent in.
+ * Validates input using Zod and creates the parent account on first login.
+ * Returns a parent access token recorded as a session, 401 if the code is
+ * invalid or expired, or 429 if the IP address made too many attempts.
+ */
+router.post('/auth/verify-otp', async (req: Request, res: Response) => {
+  try {
+    const body = verifyOtpSchema.parse(req.body);
+    const context = getSessionContext(req);
+
+    const result = await verifyParentOtp(body.whatsapp, body.code, context.ipAddress);
+
+    if (result.status === 'too_many_requests') {
+      res.setHeader('Retry-After', String(result.retryAfterSeconds));
+      return errorResponse(
+        res,
+        'Too many login attempts, please try again later',
+        429,
+        { retryAfterSeconds: result.retryAfterSeconds }
+      );
+    }
+    if (result.status === 'invalid') {
+      return errorResponse(res, 'Invalid or expired code', 401);
+    }
+
+    const { parent } = result;
+    const token = await startParentSession(parent, context);
+
+    return successResponse(
+      res,
+      {
+        token,
+        parent: {
+          id: parent.id,
+          whatsapp: parent.whatsapp,
+        },
+      },
+      'Login successful'
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Login failed',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /auth/logout
+ * Logs out the authenticated parent by revoking the session of the
+ * current token, which blacklists its JTI.
+ * Requires the `parent_portal:read` permission.
+ */
+router.post('/auth/logout', requirePermission('parent_portal:read'), async (req: Request, res: Response) => {
+  try {
+    if (req.user?.jti) {
+      await revokeParentSession(req.user.jti, req.user.id);
+    }
+
+    return successResponse(res, null, 'Logout successful');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Logout failed',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * GET /auth/sessions
+ * Lists the active sessions of the authenticated parent.
+ * Requires the `parent_portal:read` permission.
+ * The caller's own session is flagged.
+ */
+router.get('/auth/sessions', requirePermission('parent_portal:read'), async (req: Request, res: Response) => {
+  try {
+    const sessions = await listActiveParentSessions(req.user!.id);
+
+    return successResponse(
+      res,
+      sessions.map((session) => ({
+        ...session,
+        current: session.jti === req.user?.jti,
+      })),
+      'Sessions fetched successfully'
+    );
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch sessions',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * DELETE /auth/sessions/:jti
+ * Revokes one of the authenticated parent's sessions by its JTI.
+ * Requires the `parent_portal:read` permission.
+ * Returns 404 if the session does not exist or is already revoked.
+ */
+router.delete('/auth/sessions/:jti', requirePermission('parent_portal:read'), async (req: Request, res: Response) => {
+  try {
+    const revoked = await revokeParentSession(req.params.jti, req.user!.id);
+
+    if (!revoked) {
+      return errorResponse(res, 'Session not found', 404);
+    }
+
+    return successResponse(res, null, 'Session revoked successfully');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to revoke session',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * GET /children
+ * Fetches all children of the authenticated parent.
+ * Requires the `parent_portal:read` permission.
+ * Includes active enrollments with class, program, mentor and schedules.
+ * Handles server errors gracefully.
+ */
+router.get('/children', requirePermission('parent_portal:read'), async (req: Request, res: Response) => {
+  try {
+    const children = await findChildren(req);
+
+    if (!children) {
+      return errorResponse(res, 'Parent account not found', 404);
+    }
+
+    return successResponse(res, children.map(withAge), 'Children fetched successfully');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch children',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * GET /schedule
+ * Fetches the combined weekly schedule of the parent's children.
+ * Requires the `parent_portal:read` permission.
+ * Returns one entry per class session ordered by day and time,
+ * labelled with the student, class and mentor.
+ */
+router.get('/schedule', requirePermission('parent_portal:read'), async (req: Request, res: Response) => {
+  try {
+    const children = await findChildren(req);
+
+    if (!children) {
+      return errorResponse(res, 'Parent account not found', 404);
+    }
+
+    const schedule = children
+      .flatMap((child) =>
+        child.enrollments.flatMap((enrollment) =>
+          enrollment.class.schedules.map((slot) => ({
+            day_of_week: slot.day_of_week,
+            start_time: slot.start_time,
+            end_time: slot.end_time,
+            student: {
+              student_id: child.student_id,
+              student_name: child.student_name,
+            },
+            class: {
+              class_id: enrollment.class.class_id,
+              name: enrollment.class.name,
+              program: enrollment.class.program,
+              mentor: enrollment.class.mentor,
+            },
+          }))
+        )
+      )
+      .sort((a, b) =>
+        a.day_of_week - b.day_of_week ||
+        a.start_time.localeCompare(b.start_time)
+      );
+
+    return successResponse(res, schedule, 'Schedule fetched successfully');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch schedule',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * GET /announcements
+ * Fetches a paginated list of announcements for parents, newest first.
+ * Requires the `parent_portal:read` permission.
+ * Supports `page`, `limit` and `category` query parameters.
+ */
+router.get('/announcements', requirePermission('parent_portal:read'), async (req: Request, res: Response) => {
+  try {
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(req.query.limit) || 10, 1),
+      100
+    );
+    const category = Object.values(AnnouncementCategory).find(
+      (value) => value === req.query.category
+    );
+    const where = category ? { category } : {};
+
+    const [totalItems, announcements] = await Promise.all([
+      prisma.announcements.count({ where }),
+      prisma.announcements.findMany({
+        where,
+        orderBy: { created_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return paginatedResponse(
+      res,
+      announcements,
+      { page, limit, totalItems },
+      'Announcements fetched successfully'
+    );
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch announcements',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+export default router;
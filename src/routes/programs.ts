@@ -5,12 +5,15 @@ import {
 } from '../validators/programs';
 import { ZodError } from 'zod';
 import { prisma } from '../lib/prisma';
+import { recordAudit } from '../lib/audit';
+import { moveToTrash } from '../lib/trash';
+import { statusActorOf } from '../lib/enrollments';
 import {
   successResponse,
   errorResponse,
   paginatedResponse,
 } from '../helper/apiResponse';
-import { authMiddleware } from '../middleware/auth';
+import { requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -162,17 +165,23 @@ router.get('/class/:id', async (req: Request, res: Response) => {
 /**
  * POST /
  * Creates a new program.
- * Requires authentication and validates request body using Zod.
+ * Requires the `programs:write` permission and validates request body using Zod.
  * Returns the created program with a 201 status code on success.
  * Handles validation and server errors.
  */
-router.post('/', authMiddleware, async (req: Request, res: Response) => {
+router.post('/', requirePermission('programs:write'), async (req: Request, res: Response) => {
   try {
     const body = createProgramSchema.parse(req.body);
 
     const program = await prisma.programs.create({
       data: body,
     });
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'program',
+      entityId: program.program_id,
+      after: program,
+    });
 
     return successResponse(
       res,
@@ -197,19 +206,34 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
 /**
  * PUT /:id
  * Updates an existing program by its unique ID.
- * Requires authentication and validates request body using Zod.
- * Returns the updated program with related classes on success.
+ * Requires the `programs:write` permission and validates request body using Zod.
+ * Returns the updated program with related classes on success,
+ * or 404 if it does not exist.
  * Handles validation and server errors.
  */
-router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
+router.put('/:id', requirePermission('programs:write'), async (req: Request, res: Response) => {
   try {
     const body = updateProgramSchema.parse(req.body);
 
+    const existing = await prisma.programs.findUnique({
+      where: { program_id: req.params.id },
+    });
+    if (!existing) {
+      return errorResponse(res, 'Program not found', 404);
+    }
+
     const program = await prisma.programs.update({
       where: { program_id: req.params.id },
       data: body,
       include: { classes: true },
     });
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'program',
+      entityId: program.program_id,
+      before: existing,
+      after: { ...program, classes: undefined },
+    });
 
     return successResponse(
       res,
@@ -232,22 +256,35 @@ router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
 
 /**
  * DELETE /:id
- * Deletes a program by its unique ID.
- * Requires authentication.
- * Returns a success message on successful deletion.
- * Handles server errors gracefully.
+ * Moves a program to the trash along with its classes and their
+ * enrollments and schedules.
+ * Requires the `programs:write` permission.
+ * It can be restored through /api/trash until an admin purges it.
+ * Returns 404 if the program is not found.
  */
-router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('programs:write'), async (req: Request, res: Response) => {
   try {
-    await prisma.programs.delete({
-      where: { program_id: req.params.id },
+    const result = await moveToTrash('program', req.params.id, statusActorOf(req));
+    if (result.status === 'not_found') {
+      return errorResponse(res, 'Program not found', 404);
+    }
+
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'program',
+      entityId: req.params.id,
+      before: result.record,
     });
+    for (const promoted of result.promoted) {
+      await recordAudit(req, {
+        action: 'waitlist_promote',
+        entityType: 'enrollment',
+        entityId: promoted.enrollment_id,
+        after: promoted,
+      });
+    }
 
-    return successResponse(
-      res,
-      null,
-      'Program deleted successfully'
-    );
+    return successResponse(res, null, 'Program moved to trash');
   } catch (error) {
     return errorResponse(
       res,
@@ -0,0 +1,123 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { prisma } from '../lib/prisma';
+import { recordAudit } from '../lib/audit';
+import { shouldQuarantine, quarantineSubmission } from '../lib/quarantine';
+import { statusActorOf } from '../lib/enrollments';
+import { registerStudent, registrationInclude } from '../lib/registrations';
+import { scheduleConflictMessage } from '../lib/scheduleConflicts';
+import { requirePermission, optionalAuthMiddleware } from '../middleware/auth';
+import { protectPublicSubmission } from '../middleware/spamProtection';
+import { successResponse, errorResponse } from '../helper/apiResponse';
+import { createRegistrationSchema, idempotencyKeySchema } from '../validators/registrations';
+
+const router = Router();
+
+/**
+ * POST /
+ * Registers a student for a class in one step: finds the student by name
+ * and the parent's WhatsApp number or creates them, and creates a
+ * registered enrollment (waitlisted when the class is full) in one
+ * transaction. Returns the registration with its reference number.
+ * Open to the public; a bearer token or API key is optional and only
+ * identifies the caller in the audit log. Validates request body using Zod.
+ * Anonymous submissions are rate limited and flagged ones are quarantined
+ * for review, which returns 202 without registering.
+ * An optional `Idempotency-Key` header makes retries safe: repeating the
+ * request with the same key returns the first registration with 200,
+ * and reusing the key with different data returns 422.
+ * Returns 404 if the class is not found, 409 if the student is already
+ * enrolled or the class clashes with the student's schedule, and 422 if
+ * the student is not within the class's age range.
+ */
+router.post('/', optionalAuthMiddleware, protectPublicSubmission, async (req: Request, res: Response) => {
+  try {
+    const data = createRegistrationSchema.parse(req.body);
+    const idempotencyKey = idempotencyKeySchema.parse(req.get('idempotency-key'));
+
+    if (shouldQuarantine(req)) {
+      await quarantineSubmission(req, 'registration', req.body);
+      return successResponse(res, null, 'Registration received and is awaiting review', 202);
+    }
+
+    const result = await registerStudent(data, statusActorOf(req), idempotencyKey);
+
+    switch (result.status) {
+      case 'replayed':
+        return successResponse(res, result.registration, 'Registration already received');
+      case 'key_reused':
+        return errorResponse(
+          res,
+          'Idempotency-Key was already used for a different registration',
+          422
+        );
+      case 'not_found':
+        return errorResponse(res, 'Class not found', 404);
+      case 'already_enrolled':
+        return errorResponse(res, 'Student is already registered for this class', 409);
+      case 'in_trash':
+        return errorResponse(
+          res,
+          'An earlier registration of this student for the class was deleted; ask the staff to restore it',
+          409
+        );
+      case 'ineligible':
+        return errorResponse(res, result.message, 422, result.eligibility);
+      case 'schedule_conflict':
+        return errorResponse(res, scheduleConflictMessage(result.conflicts), 409, result.conflicts);
+    }
+
+    const { registration } = result;
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'registration',
+      entityId: registration.registration_id,
+      after: registration,
+    });
+
+    const message = registration.enrollment.status === 'waitlisted'
+      ? `Class is full; added to the waitlist at position ${registration.enrollment.waitlist_position}`
+      : 'Registration received';
+    return successResponse(res, registration, message, 201);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to register student',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * GET /:reference
+ * Looks up a registration by the reference number a parent quotes,
+ * e.g. REG-7K3F9QMA, with its enrollment, student and class.
+ * Requires the `enrollments:read` permission.
+ * Returns 404 if no registration has this reference number.
+ */
+router.get('/:reference', requirePermission('enrollments:read'), async (req: Request, res: Response) => {
+  try {
+    const registration = await prisma.registrations.findUnique({
+      where: { reference_number: req.params.reference.trim().toUpperCase() },
+      include: registrationInclude,
+    });
+    if (!registration) {
+      return errorResponse(res, 'Registration not found', 404);
+    }
+
+    return successResponse(res, registration, 'Registration fetched successfully');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch registration',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+export default router;
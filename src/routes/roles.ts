@@ -0,0 +1,91 @@
+import { Router, Request, Response } from 'express';
+import { UserRole } from '@prisma/client';
+import { ZodError } from 'zod';
+import { requirePermission } from '../middleware/auth';
+import { successResponse, errorResponse } from '../helper/apiResponse';
+import { PERMISSIONS, getRolePermissions, setRolePermissions } from '../lib/permissions';
+import { recordAudit } from '../lib/audit';
+import { roleParamSchema, updateRolePermissionsSchema } from '../validators/roles';
+
+const router = Router();
+
+/**
+ * GET /
+ * Fetches every role with its granted permissions,
+ * together with the full permission catalog.
+ * Requires the `users:manage` permission.
+ * Handles server errors gracefully.
+ */
+router.get('/', requirePermission('users:manage'), async (_req: Request, res: Response) => {
+  try {
+    const roles = await Promise.all(
+      Object.values(UserRole).map(async (role) => ({
+        role,
+        permissions: await getRolePermissions(role),
+      }))
+    );
+
+    return successResponse(
+      res,
+      { roles, permissions: PERMISSIONS },
+      'Roles fetched successfully'
+    );
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch roles',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * PUT /:role/permissions
+ * Replaces the permission set of a role.
+ * Requires the `users:manage` permission and validates input using Zod.
+ * The admin role must keep `users:manage` so it cannot lock itself out.
+ * Returns the updated permission set or appropriate errors.
+ */
+router.put('/:role/permissions', requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const role = roleParamSchema.parse(req.params.role);
+    const body = updateRolePermissionsSchema.parse(req.body);
+
+    if (role === UserRole.admin && !body.permissions.includes('users:manage')) {
+      return errorResponse(
+        res,
+        'The admin role must keep the users:manage permission',
+        400
+      );
+    }
+
+    const previous = await getRolePermissions(role);
+    const permissions = await setRolePermissions(role, body.permissions);
+    await recordAudit(req, {
+      action: 'update_permissions',
+      entityType: 'role',
+      entityId: role,
+      before: { permissions: previous },
+      after: { permissions },
+    });
+
+    return successResponse(
+      res,
+      { role, permissions },
+      'Role permissions updated successfully'
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to update role permissions',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+export default router;
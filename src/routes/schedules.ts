@@ -1,12 +1,51 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../lib/prisma';
-import { authMiddleware } from '../middleware/auth';
+import { recordAudit } from '../lib/audit';
+import { moveToTrash } from '../lib/trash';
+import { requirePermission } from '../middleware/auth';
 import { ZodError } from 'zod';
 import { successResponse, errorResponse, paginatedResponse } from '../helper/apiResponse';
 import { createScheduleSchema, updateScheduleSchema } from '../validators/schedules';
 
 const router = Router();
 
+/**
+ * Find the schedule holding a class's time slot, other than the one being
+ * updated. A trashed schedule counts as well, since it keeps the slot
+ * taken until it is restored or purged.
+ */
+const findSlotHolder = (
+  slot: { class_id: string; day_of_week: number; start_time: string },
+  excludeId?: string
+) =>
+  // Mentioning deleted_at lets the query see the trash
+  prisma.schedules.findFirst({
+    where: {
+      ...slot,
+      schedule_id: excludeId ? { not: excludeId } : undefined,
+      deleted_at: undefined,
+    },
+    select: { schedule_id: true, deleted_at: true },
+  });
+
+const slotTakenResponse = (
+  res: Response,
+  holder: { schedule_id: string; deleted_at: Date | null }
+) =>
+  holder.deleted_at
+    ? errorResponse(
+      res,
+      'A schedule for this class at this time is in the trash; restore it through /api/trash',
+      409,
+      { entity: 'schedule', id: holder.schedule_id }
+    )
+    : errorResponse(
+      res,
+      'The class already has a schedule at this time',
+      409,
+      { schedule_id: holder.schedule_id }
+    );
+
 /**
  * GET /
  * Fetches a paginated list of schedules ordered by newest first.
@@ -87,14 +126,26 @@ router.get('/:id', async (req, res) => {
 /**
  * POST /
  * Creates a new schedule.
- * Requires authentication and validates request body using Zod.
- * Returns the created schedule with a 201 status code on success.
+ * Requires the `schedules:write` permission and validates request body using Zod.
+ * Returns the created schedule with a 201 status code on success, or 409
+ * if the class already has a schedule, live or trashed, starting on the
+ * same day and time.
  * Handles validation and server errors.
  */
-router.post('/', authMiddleware, async (req, res) => {
+router.post('/', requirePermission('schedules:write'), async (req, res) => {
   try {
     const data = createScheduleSchema.parse(req.body);
+    const holder = await findSlotHolder(data);
+    if (holder) {
+      return slotTakenResponse(res, holder);
+    }
     const schedule = await prisma.schedules.create({ data });
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'schedule',
+      entityId: schedule.schedule_id,
+      after: schedule,
+    });
     return successResponse(res, schedule, 'Schedule created', 201);
   } catch (error) {
     if (error instanceof ZodError) {
@@ -117,17 +168,43 @@ router.post('/', authMiddleware, async (req, res) => {
 /**
  * PUT /:id
  * Updates an existing schedule by its unique ID.
- * Requires authentication and validates request body using Zod.
- * Returns the updated schedule on success.
+ * Requires the `schedules:write` permission and validates request body using Zod.
+ * Returns the updated schedule on success, 404 if it does not exist, or
+ * 409 if another schedule of the class, live or trashed, starts on the
+ * same day and time.
  * Handles validation and server errors.
  */
-router.put('/:id', authMiddleware, async (req, res) => {
+router.put('/:id', requirePermission('schedules:write'), async (req, res) => {
   try {
     const data = updateScheduleSchema.parse(req.body);
+    const existing = await prisma.schedules.findUnique({
+      where: { schedule_id: req.params.id },
+    });
+    if (!existing) {
+      return errorResponse(res, "Schedule not found", 404);
+    }
+    const holder = await findSlotHolder(
+      {
+        class_id: data.class_id ?? existing.class_id,
+        day_of_week: data.day_of_week ?? existing.day_of_week,
+        start_time: data.start_time ?? existing.start_time,
+      },
+      existing.schedule_id
+    );
+    if (holder) {
+      return slotTakenResponse(res, holder);
+    }
     const schedule = await prisma.schedules.update({
       where: { schedule_id: req.params.id },
       data,
     });
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'schedule',
+      entityId: schedule.schedule_id,
+      before: existing,
+      after: schedule,
+    });
     return successResponse(res, schedule, 'Schedule updated');
   } catch (error) {
     if (error instanceof ZodError) {
@@ -149,22 +226,33 @@ router.put('/:id', authMiddleware, async (req, res) => {
 
 /**
  * DELETE /:id
- * Deletes a schedule by its unique ID.
- * Requires authentication.
- * Returns a success message on successful deletion.
- * Handles server errors gracefully.
+ * Moves a schedule to the trash.
+ * Requires the `schedules:write` permission.
+ * It can be restored through /api/trash until an admin purges it.
+ * Returns 404 if the schedule is not found.
  */
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', requirePermission('schedules:write'), async (req, res) => {
   try {
-    await prisma.schedules.delete({ where: { schedule_id: req.params.id } });
-    return successResponse(res, null, 'Schedule deleted');
+    const result = await moveToTrash('schedule', req.params.id);
+    if (result.status === 'not_found') {
+      return errorResponse(res, 'Schedule not found', 404);
+    }
+
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'schedule',
+      entityId: req.params.id,
+      before: result.record,
+    });
+
+    return successResponse(res, null, 'Schedule moved to trash');
   } catch (error) {
     return errorResponse(
       res,
-      "Failed to delete schedule",
+      'Failed to delete schedule',
       500,
       error instanceof Error ? error.message : error
-    )
+    );
   }
 });
 
@@ -2,38 +2,162 @@ import { Router, Request, Response } from 'express';
 import {
   createStudentSchema,
   updateStudentSchema,
+  listStudentsQuerySchema,
+  duplicateStudentsQuerySchema,
+  mergeStudentsSchema,
+  ListStudentsQuery,
 } from '../validators/students';
+import { exportQuerySchema } from '../validators/exports';
 import { ZodError } from 'zod';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
+import { recordAudit } from '../lib/audit';
+import { moveToTrash } from '../lib/trash';
+import { studentGuardiansInclude } from '../lib/guardians';
+import { createStudentWithGuardian } from '../lib/students';
+import { shouldQuarantine, quarantineSubmission } from '../lib/quarantine';
+import { findDuplicateStudents, mergeStudents } from '../lib/studentMerge';
+import { statusActorOf } from '../lib/enrollments';
+import { listStudentConflicts } from '../lib/scheduleConflicts';
+import { streamExport, exportBatchArgs } from '../lib/export';
 import {
   successResponse,
   errorResponse,
+  paginatedResponse,
 } from '../helper/apiResponse';
-import { authMiddleware } from '../middleware/auth';
+import { phoneSearchDigits } from '../helper/phone';
+import { birthDateRangeForAge, calculateAge, withAge } from '../helper/age';
+import { requirePermission, hasPermission, optionalAuthMiddleware } from '../middleware/auth';
+import { protectPublicSubmission } from '../middleware/spamProtection';
 
 const router = Router();
 
+/**
+ * Add the student's age on each class's start date to its enrollments
+ */
+const withEnrollmentAges = <
+  T extends {
+    date_of_birth: Date;
+    enrollments: { class: { started_at: Date } }[];
+  }
+>(student: T) => ({
+  ...withAge(student),
+  enrollments: student.enrollments.map((enrollment) => ({
+    ...enrollment,
+    age_at_class_start: calculateAge(student.date_of_birth, enrollment.class.started_at),
+  })),
+});
+
+/**
+ * Remove guardian contact details from a student record
+ */
+const omitStudentPii = <T extends { guardians?: unknown }>(
+  { guardians, ...student }: T
+) => student;
+
+/**
+ * Build the student directory filters shared by the list and the export.
+ * Search matches guardian names and numbers only when `includePii` is set.
+ */
+const buildStudentsWhere = (
+  query: ListStudentsQuery,
+  includePii: boolean
+): Prisma.StudentsWhereInput => {
+  const where: Prisma.StudentsWhereInput = {
+    date_of_birth: birthDateRangeForAge(query.min_age, query.max_age),
+  };
+
+  if (query.search) {
+    const conditions: Prisma.StudentsWhereInput[] = [
+      { student_name: { contains: query.search } },
+    ];
+
+    if (includePii) {
+      conditions.push({
+        guardians: { some: { guardian: { name: { contains: query.search } } } },
+      });
+
+      // Numbers are stored in E.164, so search on the matching digits
+      const digits = phoneSearchDigits(query.search);
+      if (digits.length >= 3) {
+        conditions.push({
+          guardians: { some: { guardian: { whatsapp: { contains: digits } } } },
+        });
+      }
+    }
+
+    where.OR = conditions;
+  }
+
+  // Class, program and status filters must match the same enrollment
+  if (query.class_id || query.program_id || query.status) {
+    where.enrollments = {
+      some: {
+        class_id: query.class_id,
+        status: query.status,
+        class: query.program_id ? { program_id: query.program_id } : undefined,
+      },
+    };
+  }
+
+  return where;
+};
+
 /**
  * GET /
- * Fetches a list of all students.
- * Requires authentication.
- * Includes related enrollment data for each student.
- * Returns students ordered by newest first.
- * Handles server errors gracefully.
+ * Fetches a paginated student directory.
+ * Requires the `students:read` permission.
+ * Supports `page` and `limit`, a free-text `search`, `min_age`/`max_age`
+ * (current age, computed from the date of birth),
+ * `program_id`, `class_id` and enrollment `status` filters, and sorting
+ * with `sort_by` (student_name, date_of_birth, created_at) and `sort_order`.
+ * Search matches guardian names and WhatsApp numbers only with
+ * `students:read_pii`; guardians are likewise only included with it.
+ * Returns an empty page when nothing matches.
  */
-router.get('/', authMiddleware, async (_req: Request, res: Response) => {
+router.get('/', requirePermission('students:read'), async (req: Request, res: Response) => {
   try {
-    const students = await prisma.students.findMany({
-      include: { enrollments: true },
-      orderBy: { created_at: 'desc' },
-    });
+    const query = listStudentsQuerySchema.parse(req.query);
+    const includePii = hasPermission(req, 'students:read_pii');
+    const where = buildStudentsWhere(query, includePii);
 
-    return successResponse(
+    const [totalItems, students] = await Promise.all([
+      prisma.students.count({ where }),
+      prisma.students.findMany({
+        where,
+        include: {
+          enrollments: {
+            include: {
+              class: {
+                select: {
+                  class_id: true,
+                  name: true,
+                  program_id: true,
+                },
+              },
+            },
+          },
+          guardians: includePii && studentGuardiansInclude,
+        },
+        orderBy: [
+          { [query.sort_by]: query.sort_order },
+          { student_id: 'asc' },
+        ],
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+    ]);
+
+    return paginatedResponse(
       res,
-      students,
+      students.map(withAge),
+      { page: query.page, limit: query.limit, totalItems },
       'Students fetched successfully'
     );
   } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
     return errorResponse(
       res,
       'Failed to fetch students',
@@ -43,18 +167,126 @@ router.get('/', authMiddleware, async (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /export
+ * Exports the student directory as a CSV or XLSX file (`format`).
+ * Requires the `students:read` and `data:export` permissions.
+ * Supports the same filters and sorting as the list. The primary
+ * guardian's contact details are only included with `students:read_pii`.
+ */
+router.get('/export', requirePermission('students:read', 'data:export'), async (req: Request, res: Response) => {
+  try {
+    const query = listStudentsQuerySchema.parse(req.query);
+    const { format } = exportQuerySchema.parse(req.query);
+    const includePii = hasPermission(req, 'students:read_pii');
+    const where = buildStudentsWhere(query, includePii);
+
+    await streamExport(res, {
+      format,
+      fileName: 'students',
+      fetchBatch: (cursor) =>
+        prisma.students.findMany({
+          where,
+          include: {
+            enrollments: {
+              include: { class: { select: { name: true } } },
+            },
+            guardians: studentGuardiansInclude,
+          },
+          orderBy: [
+            { [query.sort_by]: query.sort_order },
+            { student_id: 'asc' },
+          ],
+          ...exportBatchArgs('student_id', cursor),
+        }),
+      cursorOf: (student) => student.student_id,
+      columns: [
+        { header: 'Student ID', value: (student) => student.student_id, width: 38 },
+        { header: 'Name', value: (student) => student.student_name, width: 30 },
+        {
+          header: 'Date of Birth',
+          value: (student) => student.date_of_birth.toISOString().slice(0, 10),
+        },
+        { header: 'Estimated Date of Birth', value: (student) => student.date_of_birth_estimated },
+        { header: 'Age', value: (student) => calculateAge(student.date_of_birth) },
+        {
+          header: 'Classes',
+          value: (student) => student.enrollments.map((enrollment) => enrollment.class.name).join('; '),
+          width: 40,
+        },
+        includePii && {
+          header: 'Guardian',
+          value: (student) => student.guardians[0]?.guardian.name,
+          width: 30,
+        },
+        includePii && {
+          header: 'WhatsApp',
+          value: (student) => student.guardians[0]?.guardian.whatsapp,
+        },
+        { header: 'Registered At', value: (student) => student.created_at },
+      ],
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to export students',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * GET /duplicates
+ * Fetches groups of students that were likely registered more than once:
+ * they share a guardian WhatsApp number and have similar names.
+ * Requires the `students:read_pii` permission.
+ * Supports a `threshold` for the name similarity (0.5 to 1, default 0.8).
+ */
+router.get('/duplicates', requirePermission('students:read_pii'), async (req: Request, res: Response) => {
+  try {
+    const query = duplicateStudentsQuerySchema.parse(req.query);
+
+    const groups = await findDuplicateStudents(query.threshold);
+
+    return successResponse(
+      res,
+      groups.map((group) => ({
+        ...group,
+        students: group.students.map(withAge),
+      })),
+      'Duplicate students fetched successfully'
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to fetch duplicate students',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
 /**
  * GET /:id
  * Fetches a single student by its unique ID.
  * Includes enrollments with related class details.
+ * Guardians are only included with `students:read_pii`.
  * Returns 404 if the student is not found.
  * Handles server errors gracefully.
  */
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', optionalAuthMiddleware, async (req: Request, res: Response) => {
   try {
     const student = await prisma.students.findUnique({
       where: { student_id: req.params.id },
       include: {
+        guardians: hasPermission(req, 'students:read_pii') && studentGuardiansInclude,
         enrollments: {
           where: {
             status: 'active',
@@ -86,7 +318,7 @@ router.get('/:id', async (req: Request, res: Response) => {
 
     return successResponse(
       res,
-      student,
+      withEnrollmentAges(student),
       'Student fetched successfully'
     );
   } catch (error) {
@@ -102,21 +334,36 @@ router.get('/:id', async (req: Request, res: Response) => {
 /**
  * POST /
  * Creates a new student record.
- * Requires authentication and validates request body using Zod.
- * Returns the created student with a 201 status code on success.
+ * Open to the public; a bearer token or API key is optional and only
+ * identifies the caller in the audit log. Validates request body using Zod.
+ * Anonymous submissions are rate limited and flagged ones are quarantined
+ * for review, which returns 202 without creating the student.
+ * The parent is matched to an existing guardian by WhatsApp number, so
+ * siblings share one guardian; otherwise a new guardian is created.
+ * Returns the created student with a 201 status code; guardians are only
+ * included with `students:read_pii`.
  * Handles validation and server errors.
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', optionalAuthMiddleware, protectPublicSubmission, async (req: Request, res: Response) => {
   try {
     const body = createStudentSchema.parse(req.body);
 
-    const student = await prisma.students.create({
-      data: body,
+    if (shouldQuarantine(req)) {
+      await quarantineSubmission(req, 'student', req.body);
+      return successResponse(res, null, 'Registration received and is awaiting review', 202);
+    }
+
+    const student = await prisma.$transaction((tx) => createStudentWithGuardian(body, tx));
+    await recordAudit(req, {
+      action: 'create',
+      entityType: 'student',
+      entityId: student.student_id,
+      after: student,
     });
 
     return successResponse(
       res,
-      student,
+      withAge(hasPermission(req, 'students:read_pii') ? student : omitStudentPii(student)),
       'Student created successfully',
       201
     );
@@ -155,10 +402,11 @@ router.post('/', async (req: Request, res: Response) => {
  *
  * Notes:
  * - Only enrollments with status = "active" are included
- * - Used for parent view to check child class schedules
+ * - Requires the `students:read` permission; parents use
+ *   GET /api/parent/schedule instead
  */
 
-router.get('/:id/schedule', async (req: Request, res: Response) => {
+router.get('/:id/schedule', requirePermission('students:read'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
@@ -205,7 +453,7 @@ router.get('/:id/schedule', async (req: Request, res: Response) => {
 
     return successResponse(
       res,
-      student,
+      withEnrollmentAges(student),
       'Active student schedule fetched successfully'
     );
   } catch (error) {
@@ -218,26 +466,79 @@ router.get('/:id/schedule', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /:id/conflicts
+ * Reports the schedule conflicts between a student's current enrollments
+ * (registered, waitlisted, confirmed or active): classes whose date
+ * ranges overlap and that meet on the same day at overlapping times.
+ * Each conflicting pair of schedules is listed once.
+ * Requires the `students:read` permission.
+ * Returns 404 if the student is not found.
+ */
+router.get('/:id/conflicts', requirePermission('students:read'), async (req: Request, res: Response) => {
+  try {
+    const student = await prisma.students.findUnique({
+      where: { student_id: req.params.id },
+      select: { student_id: true, student_name: true },
+    });
+    if (!student) {
+      return errorResponse(res, 'Student not found', 404);
+    }
+
+    const conflicts = await listStudentConflicts(student.student_id);
+
+    return successResponse(
+      res,
+      { ...student, conflicts },
+      conflicts.length > 0 ? 'Schedule conflicts found' : 'No schedule conflicts found'
+    );
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to check schedule conflicts',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
 
 /**
  * PUT /:id
  * Updates an existing student by its unique ID.
- * Requires authentication and validates request body using Zod.
- * Returns the updated student on success.
+ * Requires the `students:write` permission and validates request body using Zod.
+ * Returns the updated student on success, or 404 if it does not exist.
  * Handles validation and server errors.
  */
-router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
+router.put('/:id', requirePermission('students:write'), async (req: Request, res: Response) => {
   try {
     const body = updateStudentSchema.parse(req.body);
 
+    const existing = await prisma.students.findUnique({
+      where: { student_id: req.params.id },
+    });
+    if (!existing) {
+      return errorResponse(res, 'Student not found', 404);
+    }
+
     const student = await prisma.students.update({
       where: { student_id: req.params.id },
-      data: body,
+      data: {
+        ...body,
+        // An entered date of birth replaces the back-filled estimate
+        ...(body.date_of_birth && { date_of_birth_estimated: false }),
+      },
+    });
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'student',
+      entityId: student.student_id,
+      before: existing,
+      after: student,
     });
 
     return successResponse(
       res,
-      student,
+      withAge(student),
       'Student updated successfully'
     );
   } catch (error) {
@@ -256,26 +557,112 @@ router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
 
 /**
  * DELETE /:id
- * Deletes a student by its unique ID.
- * Requires authentication.
- * Returns a success message on successful deletion.
- * Handles server errors gracefully.
+ * Moves a student to the trash along with their enrollments.
+ * Requires the `students:write` permission.
+ * It can be restored through /api/trash until an admin purges it.
+ * Returns 404 if the student is not found.
  */
-router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
+router.delete('/:id', requirePermission('students:write'), async (req: Request, res: Response) => {
   try {
-    await prisma.students.delete({
+    const result = await moveToTrash('student', req.params.id, statusActorOf(req));
+    if (result.status === 'not_found') {
+      return errorResponse(res, 'Student not found', 404);
+    }
+
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'student',
+      entityId: req.params.id,
+      before: result.record,
+    });
+    for (const promoted of result.promoted) {
+      await recordAudit(req, {
+        action: 'waitlist_promote',
+        entityType: 'enrollment',
+        entityId: promoted.enrollment_id,
+        after: promoted,
+      });
+    }
+
+    return successResponse(res, null, 'Student moved to trash');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to delete student',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /:id/merge
+ * Merges duplicate students into this student and deletes the duplicates.
+ * Requires the `students:merge` permission and validates input using Zod.
+ * Enrollments and guardians are moved to this student; enrollments in
+ * the same class are combined into one, and a seat this frees goes to
+ * the class's waitlist. Registrations keep their reference numbers.
+ * Returns 404 if any of the students is not found.
+ */
+router.post('/:id/merge', requirePermission('students:merge'), async (req: Request, res: Response) => {
+  try {
+    const body = mergeStudentsSchema.parse(req.body);
+
+    if (body.duplicate_ids.includes(req.params.id)) {
+      return errorResponse(res, 'A student cannot be merged into itself', 400);
+    }
+
+    const result = await mergeStudents(req.params.id, body.duplicate_ids, statusActorOf(req));
+
+    if (result.status === 'not_found') {
+      return errorResponse(res, 'Student not found', 404, { student_ids: result.studentIds });
+    }
+
+    const student = await prisma.students.findUniqueOrThrow({
       where: { student_id: req.params.id },
+      include: {
+        enrollments: {
+          include: { class: true },
+          orderBy: { register_at: 'asc' },
+        },
+      },
+    });
+    await recordAudit(req, {
+      action: 'merge',
+      entityType: 'student',
+      entityId: student.student_id,
+      before: { merged_students: result.mergedStudents },
+      after: {
+        moved_enrollments: result.movedEnrollments,
+        combined_enrollments: result.combinedEnrollments,
+      },
     });
+    for (const promoted of result.promoted) {
+      await recordAudit(req, {
+        action: 'waitlist_promote',
+        entityType: 'enrollment',
+        entityId: promoted.enrollment_id,
+        after: promoted,
+      });
+    }
 
     return successResponse(
       res,
-      null,
-      'Student deleted successfully'
+      {
+        student: withEnrollmentAges(student),
+        merged_student_ids: result.mergedStudents.map((merged) => merged.student_id),
+        moved_enrollments: result.movedEnrollments,
+        combined_enrollments: result.combinedEnrollments,
+      },
+      'Students merged successfully'
     );
   } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
     return errorResponse(
       res,
-      'Failed to delete student',
+      'Failed to merge students',
       500,
       error instanceof Error ? error.message : error
     );
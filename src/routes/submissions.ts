@@ -0,0 +1,193 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { prisma } from '../lib/prisma';
+import { recordAudit } from '../lib/audit';
+import { approveSubmission, rejectSubmission } from '../lib/quarantine';
+import { requirePermission } from '../middleware/auth';
+import { successResponse, errorResponse, paginatedResponse } from '../helper/apiResponse';
+import { listSubmissionsQuerySchema } from '../validators/submissions';
+
+const router = Router();
+
+/**
+ * GET /
+ * Fetches a paginated review queue of quarantined public submissions,
+ * oldest first.
+ * Requires the `submissions:review` permission.
+ * Supports `page`, `limit`, `status` (default pending) and `kind` filters.
+ */
+router.get('/', requirePermission('submissions:review'), async (req: Request, res: Response) => {
+  try {
+    const query = listSubmissionsQuerySchema.parse(req.query);
+    const where = { status: query.status, kind: query.kind };
+
+    const [totalItems, submissions] = await Promise.all([
+      prisma.quarantinedSubmission.count({ where }),
+      prisma.quarantinedSubmission.findMany({
+        where,
+        include: {
+          reviewedBy: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+    ]);
+
+    return paginatedResponse(
+      res,
+      submissions,
+      { page: query.page, limit: query.limit, totalItems },
+      'Submissions fetched successfully'
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to fetch submissions',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * GET /:id
+ * Fetches a single quarantined submission.
+ * Requires the `submissions:review` permission.
+ * Returns 404 if the submission is not found.
+ */
+router.get('/:id', requirePermission('submissions:review'), async (req: Request, res: Response) => {
+  try {
+    const submission = await prisma.quarantinedSubmission.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!submission) {
+      return errorResponse(res, 'Submission not found', 404);
+    }
+
+    return successResponse(res, submission, 'Submission fetched successfully');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to fetch submission',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /:id/approve
+ * Approves a pending submission and creates its student, enrollment or
+ * registration.
+ * Requires the `submissions:review` permission.
+ * Returns 404 if the submission is not found, 409 if it was already
+ * reviewed or the enrollment already exists, or 422 if the payload
+ * is not valid, the student is not within the class's age range or the
+ * class clashes with the student's schedule.
+ */
+router.post('/:id/approve', requirePermission('submissions:review'), async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.quarantinedSubmission.findUnique({
+      where: { id: req.params.id },
+    });
+    if (!existing) {
+      return errorResponse(res, 'Submission not found', 404);
+    }
+
+    const result = await approveSubmission(existing.id, req.user?.id ?? null);
+
+    if (result.status === 'not_pending') {
+      return errorResponse(res, 'Submission has already been reviewed', 409);
+    }
+    if (result.status === 'conflict') {
+      return errorResponse(res, 'Student is already enrolled in this class', 409);
+    }
+    if (result.status === 'invalid') {
+      return errorResponse(res, 'Submission is not valid', 422, result.errors);
+    }
+    if (result.status === 'rejected_enrollment') {
+      return errorResponse(res, result.message, 422, result.details);
+    }
+
+    await recordAudit(req, {
+      action: 'create',
+      entityType: existing.kind,
+      entityId: result.entity.id,
+      after: result.entity.record,
+    });
+    await recordAudit(req, {
+      action: 'approve',
+      entityType: 'submission',
+      entityId: existing.id,
+      before: existing,
+      after: result.submission,
+    });
+
+    return successResponse(
+      res,
+      { submission: result.submission, [existing.kind]: result.entity.record },
+      'Submission approved successfully'
+    );
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to approve submission',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /:id/reject
+ * Rejects a pending submission. Nothing is created.
+ * Requires the `submissions:review` permission.
+ * Returns 404 if the submission is not found, or 409 if it was
+ * already reviewed.
+ */
+router.post('/:id/reject', requirePermission('submissions:review'), async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.quarantinedSubmission.findUnique({
+      where: { id: req.params.id },
+    });
+    if (!existing) {
+      return errorResponse(res, 'Submission not found', 404);
+    }
+
+    if (!(await rejectSubmission(existing.id, req.user?.id ?? null))) {
+      return errorResponse(res, 'Submission has already been reviewed', 409);
+    }
+
+    const submission = await prisma.quarantinedSubmission.findUniqueOrThrow({
+      where: { id: existing.id },
+    });
+    await recordAudit(req, {
+      action: 'reject',
+      entityType: 'submission',
+      entityId: submission.id,
+      before: existing,
+      after: submission,
+    });
+
+    return successResponse(res, submission, 'Submission rejected successfully');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to reject submission',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+export default router;
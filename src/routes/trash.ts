@@ -0,0 +1,171 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { recordAudit } from '../lib/audit';
+import {
+  isTrashEntityType,
+  listTrash,
+  purgeFromTrash,
+  restoreFromTrash,
+  TRASH_ENTITIES,
+  TRASH_ENTITY_TYPES,
+} from '../lib/trash';
+import { statusActorOf } from '../lib/enrollments';
+import { authMiddleware, hasPermission, requirePermission } from '../middleware/auth';
+import { successResponse, errorResponse, paginatedResponse } from '../helper/apiResponse';
+import { listTrashQuerySchema } from '../validators/trash';
+
+const router = Router();
+
+/**
+ * GET /
+ * Fetches a paginated list of trashed records, most recently deleted first.
+ * Requires a staff session with the write permission of at least one
+ * entity; only records the caller may restore are listed, e.g. classes
+ * need the `classes:write` permission.
+ * Supports `page`, `limit` and an `entity` filter (class, student, ...).
+ */
+router.get('/', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const query = listTrashQuerySchema.parse(req.query);
+
+    const types = TRASH_ENTITY_TYPES.filter(
+      (type) =>
+        (!query.entity || type === query.entity) &&
+        hasPermission(req, TRASH_ENTITIES[type].permission)
+    );
+    if (types.length === 0) {
+      return errorResponse(res, 'Insufficient permissions to access this resource.', 403);
+    }
+
+    const { items, totalItems } = await listTrash(types, query.page, query.limit);
+
+    return paginatedResponse(
+      res,
+      items,
+      { page: query.page, limit: query.limit, totalItems },
+      'Trash fetched successfully'
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, 'Validation failed', 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      'Failed to fetch trash',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * POST /:entity/:id/restore
+ * Restores a trashed record together with the records that were
+ * trashed along with it, e.g. the enrollments of a student.
+ * Requires the write permission of the entity, e.g. `students:write`.
+ * Restored enrollments take their seats back and waitlisted ones rejoin
+ * the end of the waitlist.
+ * Returns 404 if the record is not in the trash, or 409 if a record it
+ * belongs to (such as the class of a schedule) is still in the trash or
+ * a class no longer has seats for its restored enrollments.
+ */
+router.post('/:entity/:id/restore', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { entity, id } = req.params;
+    if (!isTrashEntityType(entity)) {
+      return errorResponse(res, 'Unknown entity type', 400);
+    }
+    if (!hasPermission(req, TRASH_ENTITIES[entity].permission)) {
+      return errorResponse(res, 'Insufficient permissions to access this resource.', 403);
+    }
+
+    const result = await restoreFromTrash(entity, id, statusActorOf(req));
+
+    if (result.status === 'not_found') {
+      return errorResponse(res, 'Record not found in the trash', 404);
+    }
+    if (result.status === 'parent_trashed') {
+      return errorResponse(
+        res,
+        `Restore the ${result.parent.entity.replace('_', ' ')} it belongs to first`,
+        409,
+        result.parent
+      );
+    }
+    if (result.status === 'class_full') {
+      return errorResponse(
+        res,
+        'The class no longer has seats for the restored enrollments',
+        409,
+        { class_id: result.class_id, capacity: result.capacity }
+      );
+    }
+
+    await recordAudit(req, {
+      action: 'restore',
+      entityType: entity,
+      entityId: id,
+      after: result.record,
+    });
+    for (const promoted of result.promoted) {
+      await recordAudit(req, {
+        action: 'waitlist_promote',
+        entityType: 'enrollment',
+        entityId: promoted.enrollment_id,
+        after: promoted,
+      });
+    }
+
+    return successResponse(
+      res,
+      { record: result.record, cascaded: result.cascaded },
+      'Record restored successfully'
+    );
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to restore record',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+/**
+ * DELETE /:entity/:id
+ * Permanently deletes a trashed record and everything that belongs to it.
+ * Requires the `trash:purge` permission (admin only).
+ * Returns 404 if the record is not in the trash.
+ */
+router.delete('/:entity/:id', requirePermission('trash:purge'), async (req: Request, res: Response) => {
+  try {
+    const { entity, id } = req.params;
+    if (!isTrashEntityType(entity)) {
+      return errorResponse(res, 'Unknown entity type', 400);
+    }
+
+    const result = await purgeFromTrash(entity, id);
+
+    if (result.status === 'not_found') {
+      return errorResponse(res, 'Record not found in the trash', 404);
+    }
+
+    await recordAudit(req, {
+      action: 'purge',
+      entityType: entity,
+      entityId: id,
+      before: result.record,
+    });
+
+    return successResponse(res, null, 'Record permanently deleted');
+  } catch (error) {
+    return errorResponse(
+      res,
+      'Failed to purge record',
+      500,
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
+export default router;
@@ -1,22 +1,27 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../lib/prisma';
-import { requiredAdmin } from '../middleware/auth';
+import { recordAudit } from '../lib/audit';
+import { requirePermission } from '../middleware/auth';
 import { successResponse, errorResponse, paginatedResponse } from '../helper/apiResponse';
 import { ZodError } from 'zod';
-import { updateUserSchema } from '../validators/users';
-import bcrypt from 'bcryptjs';
+import { updateUserSchema, listLoginAttemptsQuerySchema } from '../validators/users';
+import { hashPassword } from '../lib/password';
+import { revokeUserTokens } from '../lib/tokenBlacklist';
+import { unlockUser } from '../lib/loginThrottle';
+import { checkMentorLink } from '../lib/mentorLink';
+import { disableTwoFactor } from '../lib/twoFactor';
 
 const router = Router();
 
 /**
  * GET /
  * Fetches a paginated list of users.
- * Restricted to admin users.
+ * Requires the `users:manage` permission.
  * Supports `page` and `limit` query parameters with bounds.
  * Returns selected public user fields ordered by newest first.
  * Returns 404 if no users are found and handles server errors.
  */
-router.get('/', requiredAdmin, async (req: Request, res: Response) => {
+router.get('/', requirePermission('users:manage'), async (req: Request, res: Response) => {
   try {
     const page = Math.max(Number(req.query.page) || 1, 1);
     const limit = Math.min(
@@ -45,6 +50,8 @@ router.get('/', requiredAdmin, async (req: Request, res: Response) => {
         name: true,
         role: true,
         isActive: true,
+        mentorId: true,
+        twoFactorEnabled: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -67,15 +74,67 @@ router.get('/', requiredAdmin, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /login-attempts
+ * Fetches a paginated list of login attempts ordered by newest first.
+ * Requires the `users:manage` permission.
+ * Supports `page` and `limit` plus `email`, `userId`, `ipAddress`,
+ * `success`, `from` and `to` filters.
+ * Handles validation and server errors.
+ */
+router.get('/login-attempts', requirePermission('users:manage'), async (req: Request, res: Response) => {
+  try {
+    const query = listLoginAttemptsQuerySchema.parse(req.query);
+
+    const where = {
+      email: query.email,
+      userId: query.userId,
+      ipAddress: query.ipAddress,
+      success: query.success,
+      createdAt: {
+        gte: query.from,
+        lte: query.to,
+      },
+    };
+
+    const [totalItems, attempts] = await Promise.all([
+      prisma.loginAttempt.count({ where }),
+      prisma.loginAttempt.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+    ]);
+
+    return paginatedResponse(
+      res,
+      attempts,
+      { page: query.page, limit: query.limit, totalItems },
+      'Login attempts fetch successfully'
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return errorResponse(res, "validation failed", 400, error.errors);
+    }
+    return errorResponse(
+      res,
+      "Failed to fetch login attempts",
+      500,
+      error instanceof Error ? error.message : error
+    )
+  }
+});
+
 /**
  * GET /:id
  * Fetches a single user by unique ID.
- * Restricted to admin users.
+ * Requires the `users:manage` permission.
  * Returns selected public user fields.
  * Returns 404 if the user is not found.
  * Handles server errors gracefully.
  */
-router.get('/:id', requiredAdmin, async (req, res) => {
+router.get('/:id', requirePermission('users:manage'), async (req, res) => {
   try {
     const user = await prisma.user.findUnique({
       where: { id: req.params.id },
@@ -85,6 +144,10 @@ router.get('/:id', requiredAdmin, async (req, res) => {
         name: true,
         role: true,
         isActive: true,
+        mentorId: true,
+        twoFactorEnabled: true,
+        failedLoginCount: true,
+        lockedUntil: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -104,28 +167,69 @@ router.get('/:id', requiredAdmin, async (req, res) => {
 /**
  * PUT /:id
  * Updates an existing user by unique ID.
- * Restricted to admin users and validates input using Zod.
+ * Requires the `users:manage` permission and validates input using Zod.
  * Hashes password if provided and updates role, status, and profile data.
+ * Users with the mentor role must stay linked to a Mentors record.
+ * Revokes every live token of the user when the account is deactivated,
+ * the role changes or the password changes.
  * Returns updated user public details on success.
  * Handles validation and server errors.
  */
 
-router.put('/:id', requiredAdmin, async (req, res) => {
+router.put('/:id', requirePermission('users:manage'), async (req, res) => {
   try {
     const body = updateUserSchema.parse(req.body);
+    const existing = await prisma.user.findUnique({
+      where: { id: req.params.id },
+    });
+    if (!existing) return errorResponse(res, "User not found", 404);
+
+    const role = body.role ?? existing.role;
+    const mentorId = role === 'mentor'
+      ? (body.mentorId === undefined ? existing.mentorId : body.mentorId)
+      : null;
+
+    if (role === 'mentor') {
+      if (!mentorId) {
+        return errorResponse(res, "mentorId is required for the mentor role", 400);
+      }
+      const link = await checkMentorLink(mentorId, existing.id);
+      if (!link.ok) return errorResponse(res, link.message, link.status);
+    }
+
     const updateData: any = {
       email: body.email,
       name: body.name,
       role: body.role,
       isActive: body.isActive,
+      mentorId,
     };
     if (body.password) {
-      updateData.password = await bcrypt.hash(body.password, 10);
+      updateData.password = await hashPassword(body.password);
     }
     const user = await prisma.user.update({
       where: { id: req.params.id },
       data: updateData,
     });
+
+    const shouldRevoke =
+      (body.isActive === false && existing.isActive) ||
+      (body.role !== undefined && body.role !== existing.role) ||
+      mentorId !== existing.mentorId ||
+      Boolean(body.password);
+
+    if (shouldRevoke) {
+      await revokeUserTokens(user.id);
+    }
+
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'user',
+      entityId: user.id,
+      before: existing,
+      after: user,
+    });
+
     return successResponse(
       res,
       {
@@ -133,7 +237,8 @@ router.put('/:id', requiredAdmin, async (req, res) => {
         email: user.email,
         name: user.name,
         role: user.role,
-        isActive: user.isActive
+        isActive: user.isActive,
+        mentorId: user.mentorId,
       },
       "User update successfully"
     );
@@ -153,14 +258,22 @@ router.put('/:id', requiredAdmin, async (req, res) => {
 /**
  * DELETE /:id
  * Deletes a user by unique ID.
- * Restricted to admin users.
+ * Requires the `users:manage` permission.
+ * Revokes every live token of the user before deleting it.
  * Returns a success message on successful deletion.
  * Handles validation and server errors gracefully.
  */
 
-router.delete('/:id', requiredAdmin, async (req, res) => {
+router.delete('/:id', requirePermission('users:manage'), async (req, res) => {
   try {
-    await prisma.user.delete({ where: { id: req.params.id } });
+    await revokeUserTokens(req.params.id);
+    const user = await prisma.user.delete({ where: { id: req.params.id } });
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'user',
+      entityId: user.id,
+      before: user,
+    });
     return successResponse(res, null, "userDeleted")
   } catch (error) {
     if (error instanceof ZodError) {
@@ -175,4 +288,112 @@ router.delete('/:id', requiredAdmin, async (req, res) => {
   }
 });
 
+/**
+ * POST /:id/revoke-sessions
+ * Revokes every live token of a user.
+ * Requires the `users:manage` permission.
+ * Blacklists the access token of every active session and revokes
+ * all refresh tokens, forcing the user to login again everywhere.
+ * Returns 404 if the user is not found.
+ */
+router.post('/:id/revoke-sessions', requirePermission('users:manage'), async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+    if (!user) return errorResponse(res, "User not found", 404);
+
+    const revoked = await revokeUserTokens(user.id);
+    await recordAudit(req, {
+      action: 'revoke_sessions',
+      entityType: 'user',
+      entityId: user.id,
+    });
+    return successResponse(
+      res,
+      { revokedSessions: revoked },
+      "User sessions revoked successfully"
+    );
+  } catch (error) {
+    return errorResponse(
+      res,
+      "Failed to revoke user sessions",
+      500,
+      error instanceof Error ? error.message : error
+    )
+  }
+});
+
+/**
+ * POST /:id/unlock
+ * Unlocks a user account locked by failed login attempts.
+ * Requires the `users:manage` permission.
+ * Clears the failure counter and any active lockout.
+ * Returns 404 if the user is not found.
+ */
+router.post('/:id/unlock', requirePermission('users:manage'), async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+    if (!user) return errorResponse(res, "User not found", 404);
+
+    await unlockUser(user.id);
+    await recordAudit(req, {
+      action: 'unlock',
+      entityType: 'user',
+      entityId: user.id,
+    });
+    return successResponse(res, null, "User unlocked successfully");
+  } catch (error) {
+    return errorResponse(
+      res,
+      "Failed to unlock user",
+      500,
+      error instanceof Error ? error.message : error
+    )
+  }
+});
+
+/**
+ * POST /:id/2fa/reset
+ * Resets two-factor authentication for a user who lost their device.
+ * Requires the `users:manage` permission.
+ * Removes the TOTP secret and recovery codes and revokes all sessions;
+ * users whose role requires 2FA must enroll again on their next login.
+ * Returns 404 if the user is not found.
+ */
+router.post('/:id/2fa/reset', requirePermission('users:manage'), async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+    if (!user) return errorResponse(res, "User not found", 404);
+
+    await disableTwoFactor(user.id);
+    const revokedSessions = await revokeUserTokens(user.id);
+    await recordAudit(req, {
+      action: 'reset_2fa',
+      entityType: 'user',
+      entityId: user.id,
+    });
+
+    return successResponse(
+      res,
+      { revokedSessions },
+      "Two-factor authentication reset successfully"
+    );
+  } catch (error) {
+    return errorResponse(
+      res,
+      "Failed to reset two-factor authentication",
+      500,
+      error instanceof Error ? error.message : error
+    )
+  }
+});
+
 export default router;
\ No newline at end of file
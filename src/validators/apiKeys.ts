@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { PERMISSIONS, API_KEY_SCOPES } from '../lib/permissions';
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z
+    .array(z.enum(PERMISSIONS))
+    .min(1, 'At least one scope is required')
+    .refine(
+      (scopes) => scopes.every((scope) => API_KEY_SCOPES.includes(scope)),
+      'Scope cannot be granted to API keys'
+    ),
+  expiresAt: z.coerce
+    .date()
+    .refine((date) => date > new Date(), 'Expiry must be in the future')
+    .optional(),
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
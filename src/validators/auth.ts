@@ -1,4 +1,13 @@
 import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+
+export const passwordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters')
+  .max(72, 'Password must be at most 72 characters')
+  .regex(/[a-z]/, 'Password must contain a lowercase letter')
+  .regex(/[A-Z]/, 'Password must contain an uppercase letter')
+  .regex(/[0-9]/, 'Password must contain a number');
 
 export const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -7,9 +16,89 @@ export const loginSchema = z.object({
 
 export const signupSchema = z.object({
   email: z.string().email('Invalid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
+  password: passwordSchema,
   name: z.string().min(1, 'Name is required'),
 });
 
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+export const logoutSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
+export const inviteSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  name: z.string().min(1, 'Name is required'),
+  role: z.nativeEnum(UserRole).optional(),
+  mentorId: z.string().uuid().optional(),
+}).refine((data) => data.role !== UserRole.mentor || data.mentorId, {
+  message: 'mentorId is required for the mentor role',
+  path: ['mentorId'],
+});
+
+export const acceptInviteSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: passwordSchema,
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: passwordSchema,
+});
+
+export const updateProfileSchema = z.object({
+  email: z.string().email('Invalid email address').optional(),
+  name: z.string().min(1, 'Name is required').optional(),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: passwordSchema,
+}).refine((data) => data.currentPassword !== data.newPassword, {
+  message: 'New password must be different from the current password',
+  path: ['newPassword'],
+});
+
+const twoFactorCodeField = z
+  .string()
+  .trim()
+  .min(6, 'Code is required')
+  .max(20, 'Code is too long');
+
+export const twoFactorChallengeSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+});
+
+export const twoFactorLoginSchema = twoFactorChallengeSchema.extend({
+  code: twoFactorCodeField,
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCodeField,
+});
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: twoFactorCodeField,
+});
+
 export type LoginRequest = z.infer<typeof loginSchema>;
 export type SignupRequest = z.infer<typeof signupSchema>;
+export type RefreshTokenRequest = z.infer<typeof refreshTokenSchema>;
+export type LogoutRequest = z.infer<typeof logoutSchema>;
+export type InviteRequest = z.infer<typeof inviteSchema>;
+export type AcceptInviteRequest = z.infer<typeof acceptInviteSchema>;
+export type ForgotPasswordRequest = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordRequest = z.infer<typeof resetPasswordSchema>;
+export type UpdateProfileRequest = z.infer<typeof updateProfileSchema>;
+export type ChangePasswordRequest = z.infer<typeof changePasswordSchema>;
+export type TwoFactorChallengeRequest = z.infer<typeof twoFactorChallengeSchema>;
+export type TwoFactorLoginRequest = z.infer<typeof twoFactorLoginSchema>;
+export type TwoFactorCodeRequest = z.infer<typeof twoFactorCodeSchema>;
+export type DisableTwoFactorRequest = z.infer<typeof disableTwoFactorSchema>;
@@ -9,6 +9,8 @@ export const createClassSchema = z.object({
   max_age: z.number().int().min(0),
   status: z.nativeEnum(ClassStatus),
   image: z.string().optional(),
+  // Leave out or null for no limit
+  capacity: z.number().int().min(1).nullable().optional(),
   started_at: z.coerce.date(),
   ended_at: z.coerce.date(),
 }).refine((data) => data.min_age <= data.max_age, {
@@ -31,6 +33,7 @@ export const updateClassSchema = z
 
     status: z.nativeEnum(ClassStatus).optional(),
     image: z.string().optional(),
+    capacity: z.number().int().min(1).nullable().optional(),
 
     started_at: z.coerce.date().optional(),
     ended_at: z.coerce.date().optional(),
@@ -56,6 +59,11 @@ export const updateClassSchema = z
     }
   )
 
+export const eligibleStudentsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  search: z.string().trim().min(1).optional(),
+});
 
 export type createClassSchema = z.infer<typeof createClassSchema>;
 export type updateClassSchema = z.infer<typeof updateClassSchema>;
@@ -1,21 +1,37 @@
 import { z } from 'zod';
-import { EnrollmentStatus } from '@prisma/client';
 
+// Status and timestamps are set by the server; new enrollments start as registered.
+// Staff can enroll a student outside the class's age range by giving a reason,
+// and in a class whose schedule overlaps with another of the student's classes.
 export const createEnrollmentSchema = z.object({
   student_id: z.string().uuid(),
   class_id: z.string().uuid(),
-  status: z.nativeEnum(EnrollmentStatus),
-  register_at: z.coerce.date(),
-  confirmed_at: z.coerce.date(),
+  age_override_reason: z.string().trim().min(1).max(1000).optional(),
+  allow_schedule_conflict: z.boolean().default(false),
 });
 
+// Status changes go through the transition endpoints (/confirm, /drop, ...).
+// Moving to another student or class is checked like a new enrollment.
 export const updateEnrollmentSchema = z.object({
   student_id: z.string().uuid().optional(),
   class_id: z.string().uuid().optional(),
-  status: z.nativeEnum(EnrollmentStatus).optional(),
-  register_at: z.coerce.date().optional(),
-  confirmed_at: z.coerce.date().optional(),
+  age_override_reason: z.string().trim().min(1).max(1000).optional(),
+  allow_schedule_conflict: z.boolean().default(false),
+}).strict();
+
+export const enrollmentTransitionSchema = z.object({
+  reason: z.string().trim().min(1).max(1000).optional(),
+});
+
+export const enrollmentActivationSchema = enrollmentTransitionSchema.extend({
+  allow_schedule_conflict: z.boolean().default(false),
+});
+
+// Dropping or rejecting an enrollment needs a reason
+export const enrollmentExitSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required').max(1000),
 });
 
 export type createEnrollmentSchema = z.infer<typeof createEnrollmentSchema>;
 export type updateEnrollmentSchema = z.infer<typeof updateEnrollmentSchema>;
+export type EnrollmentTransitionInput = z.infer<typeof enrollmentTransitionSchema>;
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { GuardianRelationship } from '@prisma/client';
+import { parseWhatsapp, PHONE_ERROR_MESSAGES } from '../helper/phone';
+
+// Accepts any common format and outputs E.164 (+628123456789)
+export const whatsappSchema = z
+  .string({ required_error: PHONE_ERROR_MESSAGES.empty })
+  .max(32, 'WhatsApp number too long')
+  .transform((value, ctx) => {
+    const result = parseWhatsapp(value);
+    if (!result.valid) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: PHONE_ERROR_MESSAGES[result.error],
+      });
+      return z.NEVER;
+    }
+    return result.e164;
+  });
+
+export const createGuardianSchema = z.object({
+  name: z.string().min(1, 'Guardian name is required').max(255),
+  whatsapp: whatsappSchema,
+  relationship: z.nativeEnum(GuardianRelationship).optional(),
+  email: z.string().email('Invalid email address').nullable().optional(),
+  address: z.string().max(1000).nullable().optional(),
+});
+
+export const updateGuardianSchema = createGuardianSchema.partial();
+
+export const listGuardiansQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  search: z.string().trim().min(1).optional(),
+});
+
+export const linkStudentSchema = z.object({
+  student_id: z.string().uuid(),
+  is_primary: z.boolean().optional(),
+});
+
+export type CreateGuardianInput = z.infer<typeof createGuardianSchema>;
+export type UpdateGuardianInput = z.infer<typeof updateGuardianSchema>;
+export type ListGuardiansQuery = z.infer<typeof listGuardiansQuerySchema>;
+export type LinkStudentInput = z.infer<typeof linkStudentSchema>;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { EnrollmentStatus } from '@prisma/client';
+
+// The student is created by the import and the class is matched by name.
+// Existing registrations can be imported in any status with their dates.
+export const importEnrollmentSchema = z.object({
+  status: z.nativeEnum(EnrollmentStatus).refine((status) => status !== 'waitlisted', {
+    message: 'Waitlisted enrollments cannot be imported',
+  }),
+  register_at: z.coerce.date(),
+  confirmed_at: z.coerce.date().optional(),
+});
+
+export const importQuerySchema = z.object({
+  // Validate and report without writing anything
+  dry_run: z.enum(['true', 'false']).transform((value) => value === 'true').default('false'),
+});
+
+export type ImportEnrollmentInput = z.infer<typeof importEnrollmentSchema>;
+export type ImportQuery = z.infer<typeof importQuerySchema>;
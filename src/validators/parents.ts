@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { whatsappSchema } from './guardians';
+
+export const requestOtpSchema = z.object({
+  whatsapp: whatsappSchema,
+});
+
+export const verifyOtpSchema = z.object({
+  whatsapp: whatsappSchema,
+  code: z.string().regex(/^\d{6}$/, "Code must be 6 digits"),
+});
+
+export type RequestOtpInput = z.infer<typeof requestOtpSchema>;
+export type VerifyOtpInput = z.infer<typeof verifyOtpSchema>;
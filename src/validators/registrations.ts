@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { createStudentSchema } from './students';
+
+// The student is matched by name and the parent's WhatsApp number, or created
+export const createRegistrationSchema = createStudentSchema.extend({
+  student_name: z.string().trim().min(1, 'Student name is required').max(255),
+  class_id: z.string().uuid(),
+});
+
+// Sent in the Idempotency-Key header; any unique string such as a UUID
+export const idempotencyKeySchema = z.string().trim().min(1).max(255).optional();
+
+export type CreateRegistrationInput = z.infer<typeof createRegistrationSchema>;
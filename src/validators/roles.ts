@@ -0,0 +1,11 @@
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+import { PERMISSIONS } from '../lib/permissions';
+
+export const roleParamSchema = z.nativeEnum(UserRole);
+
+export const updateRolePermissionsSchema = z.object({
+  permissions: z.array(z.enum(PERMISSIONS)),
+});
+
+export type UpdateRolePermissionsInput = z.infer<typeof updateRolePermissionsSchema>;
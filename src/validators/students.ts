@@ -1,24 +1,76 @@
 import { z } from 'zod';
+import { EnrollmentStatus, GuardianRelationship } from '@prisma/client';
+import { whatsappSchema } from './guardians';
+import { calculateAge } from '../helper/age';
+import { DEFAULT_SIMILARITY_THRESHOLD } from '../lib/studentMerge';
+
+// Calendar date (YYYY-MM-DD), stored as UTC midnight
+const dateOfBirthField = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date of birth must be in YYYY-MM-DD format')
+  // Date rolls impossible days over (2021-02-29 becomes 2021-03-01), so
+  // the parsed date must give back the same day
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00.000Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, 'Invalid date of birth')
+  .transform((value) => new Date(`${value}T00:00:00.000Z`))
+  .refine((date) => date <= new Date(), 'Date of birth cannot be in the future')
+  .refine((date) => calculateAge(date) <= 120, 'Date of birth is too far in the past');
 
 export const createStudentSchema = z.object({
   student_name: z.string().min(1, 'Student name is required').max(255),
-  student_age: z.number().int().min(1).max(120),
+  date_of_birth: dateOfBirthField,
+  // Matched to an existing guardian by WhatsApp number, or creates one
   parent_name: z.string().min(1, 'Parent name is required').max(255),
-  whatsapp: z
-    .string()
-    .min(10, "WhatsApp number too short")
-    .max(15, "WhatsApp number too long"),
+  whatsapp: whatsappSchema,
+  relationship: z.nativeEnum(GuardianRelationship).optional(),
 });
 
+// Guardian details are edited through /api/guardians
 export const updateStudentSchema = z.object({
   student_name: z.string().min(1).max(255).optional(),
-  student_age: z.number().int().min(1).max(120).optional(),
-  parent_name: z.string().min(1).max(255).optional(),
-  whatsapp: z
-    .string()
-    .min(10, "WhatsApp number too short")
-    .max(15, "WhatsApp number too long").optional(),
+  date_of_birth: dateOfBirthField.optional(),
+});
+
+export const STUDENT_SORT_FIELDS = ['student_name', 'date_of_birth', 'created_at'] as const;
+
+export const listStudentsQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(10),
+    search: z.string().trim().min(1).optional(),
+    min_age: z.coerce.number().int().min(0).optional(),
+    max_age: z.coerce.number().int().min(0).optional(),
+    program_id: z.string().uuid().optional(),
+    class_id: z.string().uuid().optional(),
+    status: z.nativeEnum(EnrollmentStatus).optional(),
+    sort_by: z.enum(STUDENT_SORT_FIELDS).default('created_at'),
+    sort_order: z.enum(['asc', 'desc']).default('desc'),
+  })
+  .refine(
+    (query) =>
+      query.min_age === undefined ||
+      query.max_age === undefined ||
+      query.min_age <= query.max_age,
+    { message: 'min_age cannot be greater than max_age', path: ['min_age'] }
+  );
+
+export const duplicateStudentsQuerySchema = z.object({
+  // Minimum name similarity between 0 and 1
+  threshold: z.coerce.number().min(0.5).max(1).default(DEFAULT_SIMILARITY_THRESHOLD),
 });
 
+export const mergeStudentsSchema = z
+  .object({
+    duplicate_ids: z.array(z.string().uuid()).min(1).max(20),
+  })
+  .refine(
+    (data) => new Set(data.duplicate_ids).size === data.duplicate_ids.length,
+    { message: 'duplicate_ids must not repeat a student', path: ['duplicate_ids'] }
+  );
+
 export type CreateStudentInput = z.infer<typeof createStudentSchema>;
 export type UpdateStudentInput = z.infer<typeof updateStudentSchema>;
+export type ListStudentsQuery = z.infer<typeof listStudentsQuerySchema>;
+export type MergeStudentsInput = z.infer<typeof mergeStudentsSchema>;
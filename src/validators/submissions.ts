@@ -0,0 +1,11 @@
+import { z } from 'zod';
+import { SubmissionKind, SubmissionStatus } from '@prisma/client';
+
+export const listSubmissionsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.nativeEnum(SubmissionStatus).default('pending'),
+  kind: z.nativeEnum(SubmissionKind).optional(),
+});
+
+export type ListSubmissionsQuery = z.infer<typeof listSubmissionsQuerySchema>;
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { TRASH_ENTITY_TYPES } from '../lib/trash';
+
+export const listTrashQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  entity: z.enum(TRASH_ENTITY_TYPES).optional(),
+});
+
+export type ListTrashQuery = z.infer<typeof listTrashQuerySchema>;
@@ -1,12 +1,26 @@
 import { z } from 'zod'
 import { UserRole } from '@prisma/client'
+import { passwordSchema } from './auth'
 
 export const updateUserSchema = z.object({
     email: z.string().email('Invalid email address').optional(),
-    password: z.string().optional(),
+    password: passwordSchema.optional(),
     name: z.string().min(1, 'Name is required').optional(),
     role: z.nativeEnum(UserRole).optional(),
-    isActive: z.boolean().optional()
+    isActive: z.boolean().optional(),
+    mentorId: z.string().uuid().nullable().optional(),
 });
 
-export type updateUserSchema = z.infer<typeof updateUserSchema>;
\ No newline at end of file
+export const listLoginAttemptsQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(10),
+    email: z.string().email('Invalid email address').optional(),
+    userId: z.string().optional(),
+    ipAddress: z.string().optional(),
+    success: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+});
+
+export type updateUserSchema = z.infer<typeof updateUserSchema>;
+export type listLoginAttemptsQuerySchema = z.infer<typeof listLoginAttemptsQuerySchema>;
\ No newline at end of file